@@ -0,0 +1,197 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  CLIP_HOLD, FREQUENCY_MARKS, MAX_FREQUENCY, MIN_DECIBELS, MIN_FREQUENCY, PEAK_FALL,
+  findTriggerIndex, formatFrequency, getFrequencyPosition, getMeterPosition, getSignalLevels, toDecibels,
+} from '../utils/analysis';
+
+interface AnalyzerPanelProps {
+  analyser: React.MutableRefObject<AnalyserNode | null>;
+}
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const canvasClass = "w-full h-full block";
+const frameClass = "relative rounded-lg overflow-hidden bg-[#0b0b0b] shadow-inner";
+
+const COLORS = {
+  grid: 'rgba(255,255,255,0.08)',
+  label: 'rgba(255,255,255,0.4)',
+  spectrum: 'rgba(59,130,246,0.9)', // blue-500
+  spectrumFill: 'rgba(59,130,246,0.25)',
+  scope: 'rgba(34,197,94,0.9)', // green-500
+  rms: 'rgba(34,197,94,0.9)',
+  hot: 'rgba(245,158,11,0.9)', // amber-500, above -6 dBFS
+  peak: 'rgba(255,255,255,0.8)',
+  clip: 'rgba(239,68,68,1)', // red-500
+};
+
+const HOT_LEVEL = -6; // dBFS where the meter turns amber
+
+// Match a canvas's backing store to its size on screen; returns its CSS size
+const fitCanvas = (canvas: HTMLCanvasElement, context: CanvasRenderingContext2D) => {
+  const bounds = canvas.getBoundingClientRect();
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(bounds.width * ratio);
+  const height = Math.round(bounds.height * ratio);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  context.setTransform(ratio, 0, 0, ratio, 0, 0);
+  context.clearRect(0, 0, bounds.width, bounds.height);
+  return { width: bounds.width, height: bounds.height };
+};
+
+// Spectrum, scope and meter are drawn with requestAnimationFrame from the analyser,
+// so nothing here (or in VirtualPiano) re-renders while it runs
+const AnalyzerPanel: React.FC<AnalyzerPanelProps> = React.memo(({ analyser }) => {
+  const spectrumRef = useRef<HTMLCanvasElement>(null);
+  const scopeRef = useRef<HTMLCanvasElement>(null);
+  const meterRef = useRef<HTMLCanvasElement>(null);
+  const clipTime = useRef(-Infinity); // performance.now() seconds of the last clipped sample
+
+  useEffect(() => {
+    const spectrumContext = spectrumRef.current?.getContext('2d');
+    const scopeContext = scopeRef.current?.getContext('2d');
+    const meterContext = meterRef.current?.getContext('2d');
+    if (!spectrumContext || !scopeContext || !meterContext) return;
+    let frame = 0;
+    let frequencyData = new Float32Array(0);
+    let timeData = new Float32Array(0);
+    let peakHold = MIN_DECIBELS;
+    let lastFrame = performance.now() / 1000;
+
+    const drawSpectrum = (node: AnalyserNode) => {
+      const { width, height } = fitCanvas(spectrumContext.canvas, spectrumContext);
+      const range = node.maxDecibels - node.minDecibels;
+      const binWidth = node.context.sampleRate / 2 / frequencyData.length;
+
+      spectrumContext.font = '10px sans-serif';
+      FREQUENCY_MARKS.forEach((frequency) => {
+        const x = getFrequencyPosition(frequency) * width;
+        spectrumContext.fillStyle = COLORS.grid;
+        spectrumContext.fillRect(x, 0, 1, height);
+        spectrumContext.fillStyle = COLORS.label;
+        spectrumContext.fillText(formatFrequency(frequency), x + 3, height - 4);
+      });
+
+      // One point per pixel column, taking the loudest bin it covers
+      spectrumContext.beginPath();
+      spectrumContext.moveTo(0, height);
+      const ratio = MAX_FREQUENCY / MIN_FREQUENCY;
+      for (let x = 0; x <= width; x++) {
+        const low = Math.floor(MIN_FREQUENCY * Math.pow(ratio, x / width) / binWidth);
+        const high = Math.max(low + 1, Math.floor(MIN_FREQUENCY * Math.pow(ratio, (x + 1) / width) / binWidth));
+        let level = -Infinity;
+        for (let bin = low; bin < high && bin < frequencyData.length; bin++) {
+          level = Math.max(level, frequencyData[bin]);
+        }
+        const position = Math.min(1, Math.max(0, (level - node.minDecibels) / range));
+        spectrumContext.lineTo(x, height - position * height);
+      }
+      spectrumContext.lineTo(width, height);
+      spectrumContext.closePath();
+      spectrumContext.fillStyle = COLORS.spectrumFill;
+      spectrumContext.fill();
+      spectrumContext.strokeStyle = COLORS.spectrum;
+      spectrumContext.lineWidth = 1;
+      spectrumContext.stroke();
+    };
+
+    const drawScope = () => {
+      const { width, height } = fitCanvas(scopeContext.canvas, scopeContext);
+      scopeContext.fillStyle = COLORS.grid;
+      scopeContext.fillRect(0, height / 2, width, 1);
+
+      // Triggered on a rising zero crossing, showing half the analyser window
+      const start = findTriggerIndex(timeData);
+      const count = timeData.length >> 1;
+      scopeContext.beginPath();
+      for (let i = 0; i < count; i++) {
+        const x = (i / (count - 1)) * width;
+        const y = height / 2 - timeData[start + i] * (height / 2);
+        if (i === 0) scopeContext.moveTo(x, y); else scopeContext.lineTo(x, y);
+      }
+      scopeContext.strokeStyle = COLORS.scope;
+      scopeContext.lineWidth = 1.5;
+      scopeContext.stroke();
+    };
+
+    const drawMeter = (now: number, elapsed: number) => {
+      const { width, height } = fitCanvas(meterContext.canvas, meterContext);
+      const { peak, rms } = getSignalLevels(timeData);
+      if (peak >= 1) clipTime.current = now;
+      const peakDb = toDecibels(peak);
+      const rmsDb = toDecibels(rms);
+      peakHold = Math.max(peakDb, peakHold - PEAK_FALL * elapsed);
+
+      const clipHeight = 10;
+      const barTop = clipHeight + 4;
+      const barHeight = height - barTop - 14;
+      const isClipping = now - clipTime.current < CLIP_HOLD;
+      meterContext.fillStyle = isClipping ? COLORS.clip : COLORS.grid;
+      meterContext.fillRect(0, 0, width, clipHeight);
+
+      meterContext.fillStyle = COLORS.grid;
+      meterContext.fillRect(0, barTop, width, barHeight);
+      const rmsHeight = getMeterPosition(rmsDb) * barHeight;
+      meterContext.fillStyle = rmsDb > HOT_LEVEL ? COLORS.hot : COLORS.rms;
+      meterContext.fillRect(0, barTop + barHeight - rmsHeight, width, rmsHeight);
+      meterContext.fillStyle = COLORS.peak;
+      meterContext.fillRect(0, barTop + barHeight - getMeterPosition(peakHold) * barHeight, width, 2);
+
+      meterContext.fillStyle = COLORS.label;
+      meterContext.font = '10px sans-serif';
+      meterContext.textAlign = 'center';
+      meterContext.fillText(peakHold <= MIN_DECIBELS ? '-∞' : peakHold.toFixed(1), width / 2, height - 3);
+    };
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const node = analyser.current;
+      if (!node) return;
+      if (frequencyData.length !== node.frequencyBinCount) frequencyData = new Float32Array(node.frequencyBinCount);
+      if (timeData.length !== node.fftSize) timeData = new Float32Array(node.fftSize);
+      node.getFloatFrequencyData(frequencyData);
+      node.getFloatTimeDomainData(timeData);
+
+      const now = performance.now() / 1000;
+      drawSpectrum(node);
+      drawScope();
+      drawMeter(now, now - lastFrame);
+      lastFrame = now;
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4">
+      <div className="flex-[3] flex flex-col gap-1">
+        <span className={labelClass}>Spectrum</span>
+        <div className={`${frameClass} h-32`}>
+          <canvas ref={spectrumRef} className={canvasClass} aria-label="Frequency spectrum of the output" />
+        </div>
+      </div>
+      <div className="flex-[2] flex flex-col gap-1">
+        <span className={labelClass}>Scope</span>
+        <div className={`${frameClass} h-32`}>
+          <canvas ref={scopeRef} className={canvasClass} aria-label="Oscilloscope of the output" />
+        </div>
+      </div>
+      <div className="flex flex-col gap-1 items-center">
+        <span className={labelClass}>Level</span>
+        <button
+          onClick={() => { clipTime.current = -Infinity; }}
+          className={`${frameClass} h-32 w-10`}
+          title="Peak / RMS in dBFS; the top light shows clipping (click to reset)"
+          aria-label="Output level meter, click to reset the clip light"
+        >
+          <canvas ref={meterRef} className={canvasClass} />
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export default AnalyzerPanel;
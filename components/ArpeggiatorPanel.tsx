@@ -0,0 +1,102 @@
+import React from 'react';
+import { ArpeggiatorSettings, ArpPattern } from '../types';
+import { ARP_PATTERNS, STEP_RATES } from '../utils/arpeggiator';
+
+interface ArpeggiatorPanelProps {
+  settings: ArpeggiatorSettings;
+  onChange: (settings: ArpeggiatorSettings) => void;
+}
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const selectClass = "text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1";
+const sliderClass = "w-20 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer";
+
+const OCTAVES = [1, 2, 3, 4];
+
+const ArpeggiatorPanel: React.FC<ArpeggiatorPanelProps> = React.memo(({ settings, onChange }) => {
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4 flex-wrap">
+      <button
+        onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        className={`px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95 ${settings.enabled ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-600 border-gray-200 hover:text-blue-600'}`}
+        aria-pressed={settings.enabled}
+      >
+        {settings.enabled ? 'Arp On' : 'Arp Off'}
+      </button>
+
+      <div className="flex items-center gap-2">
+        <span className={labelClass}>Pattern</span>
+        <select
+          value={settings.pattern}
+          onChange={(e) => onChange({ ...settings, pattern: e.target.value as ArpPattern })}
+          aria-label="Arpeggio pattern"
+          className={selectClass}
+        >
+          {ARP_PATTERNS.map(pattern => (
+            <option key={pattern.id} value={pattern.id}>{pattern.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className={labelClass}>Octaves</span>
+        <div className="flex items-center bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          {OCTAVES.map(octaves => (
+            <button
+              key={octaves}
+              onClick={() => onChange({ ...settings, octaves })}
+              className={`w-7 py-1 text-xs font-bold transition ${settings.octaves === octaves ? 'bg-blue-500 text-white' : 'text-gray-500 hover:text-blue-600'}`}
+              aria-pressed={settings.octaves === octaves}
+            >
+              {octaves}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className={labelClass}>Rate</span>
+        <select
+          value={settings.rate}
+          onChange={(e) => onChange({ ...settings, rate: parseFloat(e.target.value) })}
+          aria-label="Arpeggio rate"
+          className={selectClass}
+        >
+          {STEP_RATES.map(rate => (
+            <option key={rate.label} value={rate.beats}>{rate.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2">
+        <span className={labelClass}>Gate</span>
+        <input
+          type="range"
+          min="0.05" max="1" step="0.05"
+          value={settings.gate}
+          onChange={(e) => onChange({ ...settings, gate: parseFloat(e.target.value) })}
+          aria-label="Arpeggio gate length"
+          className={sliderClass}
+        />
+        <span className="text-xs font-semibold text-gray-600 w-8 tabular-nums">{Math.round(settings.gate * 100)}%</span>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className={labelClass}>Swing</span>
+        <input
+          type="range"
+          min="0" max="0.5" step="0.01"
+          value={settings.swing}
+          onChange={(e) => onChange({ ...settings, swing: parseFloat(e.target.value) })}
+          aria-label="Arpeggio swing"
+          className={sliderClass}
+        />
+        <span className="text-xs font-semibold text-gray-600 w-8 tabular-nums">{Math.round(settings.swing * 100)}%</span>
+      </label>
+
+      <span className="text-xs text-gray-500">Hold keys to arpeggiate them at the effects tempo.</span>
+    </div>
+  );
+});
+
+export default ArpeggiatorPanel;
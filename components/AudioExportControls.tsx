@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Take } from '../types';
+import { renderPerformance, RenderOptions } from '../utils/offlineRender';
+import { encodeWav, WavBitDepth } from '../utils/wav';
+import { downloadBlob, toFileName } from '../utils/download';
+
+interface AudioExportControlsProps {
+  selectedTake: Take | null;
+  renderOptions: RenderOptions; // Current sound settings
+  disabled: boolean;
+}
+
+const buttonClass = "px-2 py-1 text-xs font-bold uppercase tracking-wider text-gray-600 hover:text-blue-600 transition active:scale-95 disabled:opacity-30 disabled:cursor-not-allowed";
+
+const AudioExportControls: React.FC<AudioExportControlsProps> = React.memo(({
+  selectedTake, renderOptions, disabled
+}) => {
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (!selectedTake) return;
+    setIsRendering(true);
+    setError(null);
+    try {
+      const buffer = await renderPerformance(selectedTake.events, renderOptions);
+      const wav = encodeWav(buffer, bitDepth);
+      downloadBlob(new Blob([wav], { type: 'audio/wav' }), toFileName(selectedTake.name, 'wav'));
+    } catch (err) {
+      setError(err instanceof Error ? `Could not export: ${err.message}` : 'Could not export the take');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex items-center bg-white rounded-lg shadow-sm border border-gray-200">
+        <select
+          value={bitDepth}
+          onChange={(e) => setBitDepth(parseInt(e.target.value) as WavBitDepth)}
+          aria-label="WAV bit depth"
+          className="text-xs font-medium text-gray-600 bg-transparent pl-2 py-1"
+        >
+          <option value={16}>16-bit</option>
+          <option value={24}>24-bit</option>
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={disabled || isRendering || !selectedTake}
+          className={buttonClass}
+          title="Render selected take to a WAV file"
+          aria-label="Export WAV file"
+        >
+          {isRendering ? 'Rendering…' : 'Save .wav'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500 max-w-48" role="alert">{error}</p>}
+    </div>
+  );
+});
+
+export default AudioExportControls;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { KeyHighlight } from '../types';
 import { BLACK_KEY_HEIGHT_RATIO, ORIGINAL_WHITE_KEY_HEIGHT } from '../utils/constants';
 
 interface BlackKeyProps {
@@ -9,25 +10,17 @@ interface BlackKeyProps {
   yOffset: number; // Added for vertical positioning
   isActive: boolean;
   keyLabel: string | null;
-  volume: number;
-  playNote: (midi: number, vol?: number) => void;
-  stopNote: (midi: number) => void;
+  isSelected?: boolean; // Chosen in layout learn mode
+  centLabel?: string | null; // Deviation from equal temperament, shown for other tunings
+  highlight?: KeyHighlight | null; // Member of the scale or chord guide
+  isExpected?: boolean; // Next key to play in practice mode
+  noteName: string; // Spelled for the current key, e.g. "E♭4"
   viewboxHeight: number; // The total height of the SVG viewbox
 }
 
 const BlackKey: React.FC<BlackKeyProps> = React.memo(({
-  midi, x, w, height, yOffset, isActive, keyLabel, volume, playNote, stopNote, viewboxHeight
+  midi, x, w, height, yOffset, isActive, keyLabel, isSelected, centLabel, highlight, isExpected, noteName, viewboxHeight
 }) => {
-  const handleDown = (e: React.PointerEvent) => {
-    e.preventDefault();
-    playNote(midi, volume / 10);
-  };
-
-  const handleUp = (e: React.PointerEvent) => {
-    e.preventDefault();
-    stopNote(midi);
-  };
-
   // Calculate scaled font size and Y position based on the current key height relative to original black key height
   const originalBlackKeyHeight = ORIGINAL_WHITE_KEY_HEIGHT * BLACK_KEY_HEIGHT_RATIO;
   const scaleFactor = height / originalBlackKeyHeight;
@@ -35,13 +28,15 @@ const BlackKey: React.FC<BlackKeyProps> = React.memo(({
   const keyLabelFontSize = 13 * scaleFactor;
   const keyLabelY = yOffset + height - (12 * scaleFactor);
 
+  const noteNameFontSize = 8 * scaleFactor;
+  const noteNameY = yOffset + height - (28 * scaleFactor);
+
+  const centLabelFontSize = 9 * scaleFactor;
+  const centLabelY = yOffset + height - (40 * scaleFactor);
+
   return (
-    <g
-      onPointerDown={handleDown}
-      onPointerUp={handleUp}
-      onPointerLeave={handleUp} // End note on mouse out
-      style={{ touchAction: 'none' }}
-    >
+    // Pointer input is tracked at the keyboard level in PianoKeys
+    <g style={{ touchAction: 'none' }}>
       {/* Shadow */}
       <rect x={x + 4} y={yOffset} width={w} height={height + (4 * scaleFactor)} rx={3} ry={3} fill="rgba(0,0,0,0.3)" />
       {/* Main Key Body */}
@@ -60,12 +55,43 @@ const BlackKey: React.FC<BlackKeyProps> = React.memo(({
       {/* Top Highlight/Reflection */}
       <rect x={x + w*0.15} y={yOffset + (5 * scaleFactor)} width={w*0.7} height={height * 0.85} rx={2} ry={2} fill="url(#blackKeyShine)" opacity={isActive ? 0.2 : 0.5} className="pointer-events-none" />
       
+      {/* Scale / Chord Guide Tint */}
+      {highlight && (
+        <rect x={x} y={yOffset} width={w} height={height} rx={3} ry={3} fill={highlight === 'root' ? "rgba(16,185,129,0.6)" : "rgba(16,185,129,0.35)"} className="pointer-events-none" />
+      )}
+      {/* Root Marker */}
+      {highlight === 'root' && (
+        <circle cx={x + w / 2} cy={yOffset + height - (54 * scaleFactor)} r={4 * scaleFactor} fill="#6ee7b7" className="pointer-events-none" />
+      )}
+      
+      {/* Practice Target */}
+      {isExpected && (
+        <rect x={x + 2} y={yOffset + 2} width={w - 4} height={height - 4} rx={3} ry={3} fill="rgba(96,165,250,0.25)" stroke="#60a5fa" strokeWidth={4} className="pointer-events-none" />
+      )}
+
+      {/* Learn Mode Selection */}
+      {isSelected && (
+        <rect x={x + 2} y={yOffset + 2} width={w - 4} height={height - 4} rx={3} ry={3} fill="none" stroke="#f59e0b" strokeWidth={5} className="pointer-events-none" />
+      )}
+
       {/* Key Label on Black Key */}
       {keyLabel && (
         <text x={x + w / 2} y={keyLabelY} textAnchor="middle" fontSize={keyLabelFontSize} fontWeight="bold" fill="white" className="pointer-events-none select-none uppercase font-sans opacity-90">
           {keyLabel}
         </text>
       )}
+
+      {/* Note Name (C♯4 or D♭4, depending on the key) */}
+      <text x={x + w / 2} y={noteNameY} textAnchor="middle" fontSize={noteNameFontSize} fontWeight="500" fill={isActive ? "#93c5fd" : "#64748b"} className="pointer-events-none select-none">
+        {noteName}
+      </text>
+
+      {/* Cent Deviation */}
+      {centLabel && (
+        <text x={x + w / 2} y={centLabelY} textAnchor="middle" fontSize={centLabelFontSize} fontWeight="500" fill="#fbbf24" className="pointer-events-none select-none tabular-nums opacity-90">
+          {centLabel}
+        </text>
+      )}
     </g>
   );
 });
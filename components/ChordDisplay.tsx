@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { detectChord, formatChordSymbol, formatInversion, getIntervalName } from '../utils/chords';
+
+interface ChordDisplayProps {
+  notes: number[]; // Keys held down plus notes ringing under the pedal
+  noteNames: string[]; // Per MIDI note, with octave
+  pitchClassNames: string[]; // Spelled for the current key, without octave
+}
+
+const chipClass = "flex items-baseline gap-1 px-2 py-0.5 bg-white rounded-lg border border-gray-200 shadow-sm text-sm";
+
+const ChordDisplay: React.FC<ChordDisplayProps> = React.memo(({ notes, noteNames, pitchClassNames }) => {
+  const sorted = useMemo(() => [...notes].sort((a, b) => a - b), [notes]);
+  const chord = useMemo(() => detectChord(sorted), [sorted]);
+
+  let content: React.ReactNode;
+  if (chord) {
+    content = (
+      <>
+        <span className="text-2xl font-semibold text-gray-900 tracking-tight min-w-[4rem]">{formatChordSymbol(chord, pitchClassNames)}</span>
+        <span className="text-xs text-gray-500">{chord.name}, {formatInversion(chord)}</span>
+        <div className="flex items-center gap-1 flex-wrap">
+          {chord.tones.map(tone => (
+            <span key={tone.pitchClass} className={chipClass}>
+              <span className="font-semibold text-gray-800">{pitchClassNames[tone.pitchClass]}</span>
+              <span className="text-xs font-bold text-blue-500">{tone.degree}</span>
+            </span>
+          ))}
+        </div>
+      </>
+    );
+  } else if (sorted.length > 0) {
+    // Not a recognised chord: spell out each note's interval above the bass
+    const bass = sorted[0];
+    content = (
+      <div className="flex items-center gap-1 flex-wrap">
+        {sorted.map(midi => (
+          <span key={midi} className={chipClass}>
+            <span className="font-semibold text-gray-800">{noteNames[midi]}</span>
+            {midi !== bass && <span className="text-xs text-gray-500">{getIntervalName(midi - bass)}</span>}
+          </span>
+        ))}
+      </div>
+    );
+  } else {
+    content = <span className="text-sm text-gray-400">Play some notes to see the chord</span>;
+  }
+
+  return (
+    <div className="flex items-center gap-4 min-h-[2.5rem]" aria-live="polite">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Chord</span>
+      {content}
+    </div>
+  );
+});
+
+export default ChordDisplay;
@@ -0,0 +1,149 @@
+import React from 'react';
+import { EffectSettings } from '../types';
+import { DELAY_DIVISIONS, EFFECT_NAMES, EFFECT_PARAMS, EffectParamSpec } from '../utils/effects';
+
+interface EffectsPanelProps {
+  effects: EffectSettings[];
+  onChange: (effects: EffectSettings[]) => void;
+  tempo: number;
+  onTempoChange: (tempo: number) => void;
+}
+
+const formatValue = (spec: EffectParamSpec, value: number) => {
+  switch (spec.unit) {
+    case 'ms': return `${Math.round(value * 1000 * 10) / 10}ms`;
+    case '%': return `${Math.round(value * 100)}%`;
+    case 'dB': return `${value > 0 ? '+' : ''}${value.toFixed(1)}dB`;
+    case 'Hz': return `${value.toFixed(2)}Hz`;
+    default: return `${value.toFixed(2)}s`;
+  }
+};
+
+const labelClass = "flex justify-between gap-2 text-xs font-bold text-gray-400 uppercase tracking-wider";
+const valueClass = "text-gray-600 normal-case tracking-normal font-semibold";
+const sliderClass = "w-24 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer";
+const moveButtonClass = "px-1 text-gray-400 hover:text-blue-600 transition disabled:opacity-30 disabled:cursor-not-allowed";
+
+const EffectsPanel: React.FC<EffectsPanelProps> = React.memo(({ effects, onChange, tempo, onTempoChange }) => {
+  const updateEffect = (index: number, changes: Partial<EffectSettings>) => {
+    onChange(effects.map((effect, i) => i === index ? { ...effect, ...changes } as EffectSettings : effect));
+  };
+
+  // Signal flows top to bottom; swapping neighbours reorders the chain
+  const moveEffect = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= effects.length) return;
+    const next = [...effects];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Tempo</span>
+        <input
+          type="number"
+          min="30" max="300"
+          value={tempo}
+          onChange={(e) => {
+            const value = parseInt(e.target.value);
+            if (!isNaN(value)) onTempoChange(Math.min(300, Math.max(30, value)));
+          }}
+          aria-label="Tempo for synced effects"
+          className="w-16 text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+        />
+        <span className="text-xs text-gray-500">BPM</span>
+      </div>
+
+      {effects.map((effect, index) => (
+        <div
+          key={effect.id}
+          className={`flex flex-col lg:flex-row lg:items-center gap-4 px-4 py-3 bg-white rounded-xl border border-gray-200 shadow-sm ${effect.bypass ? 'opacity-60' : ''}`}
+        >
+          <div className="flex items-center gap-2 lg:w-44">
+            <div className="flex flex-col text-xs leading-none">
+              <button onClick={() => moveEffect(index, -1)} disabled={index === 0} className={moveButtonClass} aria-label={`Move ${EFFECT_NAMES[effect.type]} earlier`}>▲</button>
+              <button onClick={() => moveEffect(index, 1)} disabled={index === effects.length - 1} className={moveButtonClass} aria-label={`Move ${EFFECT_NAMES[effect.type]} later`}>▼</button>
+            </div>
+            <span className="text-sm font-semibold text-gray-800 flex-grow">{EFFECT_NAMES[effect.type]}</span>
+            <button
+              onClick={() => updateEffect(index, { bypass: !effect.bypass })}
+              className={`px-2 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95 ${effect.bypass ? 'bg-white text-gray-500 border-gray-200' : 'bg-blue-500 text-white border-blue-500'}`}
+              aria-pressed={!effect.bypass}
+              aria-label={`Toggle ${EFFECT_NAMES[effect.type]}`}
+            >
+              {effect.bypass ? 'Off' : 'On'}
+            </button>
+          </div>
+
+          <div className="flex items-end gap-4 flex-wrap">
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>
+                Mix
+                <span className={valueClass}>{Math.round(effect.mix * 100)}%</span>
+              </span>
+              <input
+                type="range"
+                min="0" max="1" step="0.01"
+                value={effect.mix}
+                onChange={(e) => updateEffect(index, { mix: parseFloat(e.target.value) })}
+                aria-label={`${EFFECT_NAMES[effect.type]} wet/dry mix`}
+                className={sliderClass}
+              />
+            </label>
+
+            {EFFECT_PARAMS[effect.type].map((spec) => {
+              // A synced delay takes its time from the tempo instead
+              if (effect.type === 'delay' && effect.sync && spec.key === 'time') return null;
+              const value = (effect as unknown as { [key: string]: number })[spec.key];
+              return (
+                <label key={spec.key} className="flex flex-col gap-1">
+                  <span className={labelClass}>
+                    {spec.label}
+                    <span className={valueClass}>{formatValue(spec, value)}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={spec.min} max={spec.max} step={spec.step}
+                    value={value}
+                    onChange={(e) => updateEffect(index, { [spec.key]: parseFloat(e.target.value) } as Partial<EffectSettings>)}
+                    aria-label={`${EFFECT_NAMES[effect.type]} ${spec.label.toLowerCase()}`}
+                    className={sliderClass}
+                  />
+                </label>
+              );
+            })}
+
+            {effect.type === 'delay' && (
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1 text-xs font-bold text-gray-400 uppercase tracking-wider">
+                  <input
+                    type="checkbox"
+                    checked={effect.sync}
+                    onChange={(e) => updateEffect(index, { sync: e.target.checked })}
+                  />
+                  Sync
+                </label>
+                {effect.sync && (
+                  <select
+                    value={effect.division}
+                    onChange={(e) => updateEffect(index, { division: parseFloat(e.target.value) })}
+                    aria-label="Delay note division"
+                    className="text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+                  >
+                    {DELAY_DIVISIONS.map(division => (
+                      <option key={division.label} value={division.beats}>{division.label}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export default EffectsPanel;
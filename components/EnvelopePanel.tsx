@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { EnvelopeSettings } from '../types';
+import { ENVELOPE_LIMITS } from '../utils/envelope';
+
+interface EnvelopePanelProps {
+  envelope: EnvelopeSettings;
+  onChange: (envelope: EnvelopeSettings) => void;
+}
+
+// Curve preview dimensions (SVG user units)
+const CURVE_WIDTH = 240;
+const CURVE_HEIGHT = 80;
+const CURVE_PADDING = 4;
+// Portion of the preview given to the held sustain stage, in seconds
+const SUSTAIN_PREVIEW_TIME = 0.5;
+
+// Time sliders use a squared curve so short attacks stay easy to dial in
+const TIME_STAGES: (keyof EnvelopeSettings)[] = ['attack', 'decay', 'release'];
+
+const toSlider = (stage: keyof EnvelopeSettings, value: number) => {
+  const { min, max } = ENVELOPE_LIMITS[stage];
+  const normalised = (value - min) / (max - min);
+  return TIME_STAGES.includes(stage) ? Math.sqrt(normalised) : normalised;
+};
+
+const fromSlider = (stage: keyof EnvelopeSettings, position: number) => {
+  const { min, max } = ENVELOPE_LIMITS[stage];
+  const normalised = TIME_STAGES.includes(stage) ? position * position : position;
+  return min + normalised * (max - min);
+};
+
+const formatValue = (stage: keyof EnvelopeSettings, value: number) => {
+  if (stage === 'sustain') return `${Math.round(value * 100)}%`;
+  return value < 1 ? `${Math.round(value * 1000)}ms` : `${value.toFixed(2)}s`;
+};
+
+const EnvelopePanel: React.FC<EnvelopePanelProps> = React.memo(({ envelope, onChange }) => {
+  // Draw the ADSR shape: linear attack and decay, flat sustain, exponential release
+  const curvePath = useMemo(() => {
+    const { attack, decay, sustain, release } = envelope;
+    const totalTime = attack + decay + SUSTAIN_PREVIEW_TIME + release;
+    const innerWidth = CURVE_WIDTH - CURVE_PADDING * 2;
+    const innerHeight = CURVE_HEIGHT - CURVE_PADDING * 2;
+    const x = (time: number) => CURVE_PADDING + (time / totalTime) * innerWidth;
+    const y = (level: number) => CURVE_PADDING + (1 - level) * innerHeight;
+
+    const releaseStart = attack + decay + SUSTAIN_PREVIEW_TIME;
+    const points = [
+      `M ${x(0)} ${y(0)}`,
+      `L ${x(attack)} ${y(1)}`,
+      `L ${x(attack + decay)} ${y(sustain)}`,
+      `L ${x(releaseStart)} ${y(sustain)}`,
+    ];
+    const releaseSteps = 16;
+    for (let i = 1; i <= releaseSteps; i++) {
+      const progress = i / releaseSteps;
+      points.push(`L ${x(releaseStart + progress * release)} ${y(sustain * Math.pow(0.001, progress))}`);
+    }
+    return points.join(' ');
+  }, [envelope]);
+
+  const stages: { key: keyof EnvelopeSettings; label: string }[] = [
+    { key: 'attack', label: 'Attack' },
+    { key: 'decay', label: 'Decay' },
+    { key: 'sustain', label: 'Sustain' },
+    { key: 'release', label: 'Release' },
+  ];
+
+  return (
+    <div className="flex flex-col md:flex-row items-center gap-6">
+      <svg
+        viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+        className="w-60 h-20 bg-white rounded-lg border border-gray-200 shadow-sm"
+        aria-label="Envelope curve"
+      >
+        <path d={curvePath} fill="none" stroke="#3b82f6" strokeWidth={2} strokeLinejoin="round" />
+      </svg>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {stages.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1">
+            <span className="flex justify-between text-xs font-bold text-gray-400 uppercase tracking-wider">
+              {label}
+              <span className="text-gray-600 normal-case tracking-normal font-semibold">{formatValue(key, envelope[key])}</span>
+            </span>
+            <input
+              type="range"
+              min="0" max="1" step="0.001"
+              value={toSlider(key, envelope[key])}
+              onChange={(e) => onChange({ ...envelope, [key]: fromSlider(key, parseFloat(e.target.value)) })}
+              aria-label={`${label} control`}
+              className="w-28 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+export default EnvelopePanel;
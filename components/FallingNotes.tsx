@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { KeyRange, KeyRect, Take } from '../types';
+import { getKeyRects } from '../utils/keyLayout';
+import { findSpanAfter, getNoteSpans, NoteSpan, NoteTrail } from '../utils/pianoRoll';
+
+interface FallingNotesProps {
+  range: KeyRange;
+  keysRef: React.RefObject<SVGSVGElement | null>; // The keyboard SVG, whose on-screen transform we follow
+  audioContext: React.MutableRefObject<AudioContext | null>;
+  liveNotes: NoteTrail; // Timed on performance.now() seconds
+  selectedTake: Take | null; // Previewed at rest, falling in time while it plays
+  getPlaybackPosition: () => { take: Take; startTime: number } | null;
+}
+
+const VISIBLE_SECONDS = 4; // Time from the top of the lane to the keys
+
+const COLORS = {
+  upcomingWhite: '59,130,246', // blue-500
+  upcomingBlack: '29,78,216', // blue-700
+  liveWhite: '245,158,11', // amber-500
+  liveBlack: '217,119,6', // amber-600
+};
+
+// Drawn with requestAnimationFrame straight from refs, so a busy performance
+// never goes through React state or re-renders
+const FallingNotes: React.FC<FallingNotesProps> = React.memo(({
+  range, keysRef, audioContext, liveNotes, selectedTake, getPlaybackPosition
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const keyRects = useMemo(() => getKeyRects(range), [range]);
+  const selectedSpans = useMemo(() => selectedTake ? getNoteSpans(selectedTake.events) : [], [selectedTake]);
+
+  // The frame loop reads the latest props from here without restarting
+  const latest = useRef({ keyRects, selectedTake, selectedSpans, getPlaybackPosition, liveNotes });
+  latest.current = { keyRects, selectedTake, selectedSpans, getPlaybackPosition, liveNotes };
+  const spanCache = useRef<{ take: Take | null; spans: NoteSpan[] }>({ take: null, spans: [] });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const svg = keysRef.current;
+      const matrix = svg?.getScreenCTM();
+      if (!matrix) return;
+
+      // Match the backing store to the element's size on screen
+      const bounds = canvas.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(bounds.width * ratio);
+      const height = Math.round(bounds.height * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, bounds.width, bounds.height);
+
+      const { keyRects, selectedTake, selectedSpans, getPlaybackPosition, liveNotes } = latest.current;
+      const pixelsPerSecond = bounds.height / VISIBLE_SECONDS;
+      // Keyboard SVG units -> canvas pixels, through the same transform the keys are drawn with
+      const toX = (svgX: number) => svgX * matrix.a + matrix.e - bounds.left;
+      const rectsByMidi = new Map<number, KeyRect>();
+      keyRects.forEach(rect => rectsByMidi.set(rect.midi, rect));
+
+      // Lane guides along the white-key edges
+      context.fillStyle = 'rgba(255,255,255,0.04)';
+      keyRects.forEach((rect) => {
+        if (rect.isWhite) context.fillRect(toX(rect.x), 0, 1, bounds.height);
+      });
+
+      const drawSpan = (span: NoteSpan, top: number, bottom: number, white: string, black: string) => {
+        const rect = rectsByMidi.get(span.midi);
+        if (!rect || bottom < 0 || top > bounds.height) return;
+        const x = toX(rect.x);
+        const w = rect.w * matrix.a;
+        context.fillStyle = `rgba(${rect.isWhite ? white : black},${0.5 + 0.5 * span.velocity})`;
+        context.fillRect(x + 1, Math.max(0, top), Math.max(1, w - 2), Math.min(bounds.height, bottom) - Math.max(0, top));
+      };
+
+      // Upcoming notes fall toward the keys; at rest the selected take is shown from its start
+      const position = getPlaybackPosition();
+      const ctx = audioContext.current;
+      let spans = selectedSpans;
+      let songTime = 0;
+      if (position && ctx) {
+        if (spanCache.current.take !== position.take) {
+          spanCache.current = { take: position.take, spans: getNoteSpans(position.take.events) };
+        }
+        spans = spanCache.current.spans;
+        songTime = ctx.currentTime - position.startTime;
+      } else if (!selectedTake) {
+        spans = [];
+      }
+      const lastVisible = findSpanAfter(spans, songTime + VISIBLE_SECONDS);
+      for (let i = 0; i < lastVisible; i++) {
+        const span = spans[i];
+        if (span.end < songTime) continue;
+        const top = bounds.height - (span.end - songTime) * pixelsPerSecond;
+        const bottom = bounds.height - (span.start - songTime) * pixelsPerSecond;
+        drawSpan(span, top, bottom, COLORS.upcomingWhite, COLORS.upcomingBlack);
+      }
+
+      // Live notes rise from the keys: held ones grow, released ones float away
+      const now = performance.now() / 1000;
+      liveNotes.prune(now - VISIBLE_SECONDS);
+      liveNotes.getSpans(now).forEach((span) => {
+        const top = bounds.height - (now - span.start) * pixelsPerSecond;
+        const bottom = bounds.height - (now - span.end) * pixelsPerSecond;
+        drawSpan(span, top, bottom, COLORS.liveWhite, COLORS.liveBlack);
+      });
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [keysRef, audioContext]);
+
+  return (
+    <div className="relative h-32 md:h-40 rounded-t-xl overflow-hidden bg-gradient-to-b from-[#050505] to-[#111]">
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full block" aria-hidden="true" />
+    </div>
+  );
+});
+
+export default FallingNotes;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { FilterSettings, FilterType } from '../types';
+import { FILTER_TYPES, MAX_CUTOFF, MAX_ENVELOPE_AMOUNT, MAX_RESONANCE, MIN_CUTOFF } from '../utils/filter';
+import EnvelopePanel from './EnvelopePanel';
+
+interface FilterPanelProps {
+  filter: FilterSettings;
+  onChange: (filter: FilterSettings) => void;
+}
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const selectClass = "text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1";
+const sliderClass = "w-24 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer";
+const valueClass = "text-gray-600 normal-case tracking-normal font-semibold";
+
+// The cutoff slider is logarithmic, like the ear
+const cutoffToSlider = (cutoff: number) => Math.log(cutoff / MIN_CUTOFF) / Math.log(MAX_CUTOFF / MIN_CUTOFF);
+const sliderToCutoff = (position: number) => Math.round(MIN_CUTOFF * Math.pow(MAX_CUTOFF / MIN_CUTOFF, position));
+
+const formatHz = (hz: number) => hz >= 1000 ? `${(hz / 1000).toFixed(1)}kHz` : `${hz}Hz`;
+
+const FilterPanel: React.FC<FilterPanelProps> = React.memo(({ filter, onChange }) => {
+  const sliders: { key: 'resonance' | 'envelopeAmount' | 'keyTracking'; label: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+    { key: 'resonance', label: 'Resonance', min: 0.1, max: MAX_RESONANCE, step: 0.1, format: value => value.toFixed(1) },
+    { key: 'envelopeAmount', label: 'Env Amount', min: -MAX_ENVELOPE_AMOUNT, max: MAX_ENVELOPE_AMOUNT, step: 0.1, format: value => `${value > 0 ? '+' : ''}${value.toFixed(1)} oct` },
+    { key: 'keyTracking', label: 'Key Track', min: 0, max: 1, step: 0.05, format: value => `${Math.round(value * 100)}%` },
+  ];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row items-center gap-4 flex-wrap">
+        <label className="flex items-center gap-1 text-xs font-bold text-gray-400 uppercase tracking-wider">
+          <input
+            type="checkbox"
+            checked={filter.enabled}
+            onChange={(e) => onChange({ ...filter, enabled: e.target.checked })}
+          />
+          Filter
+        </label>
+
+        <select
+          value={filter.type}
+          onChange={(e) => onChange({ ...filter, type: e.target.value as FilterType })}
+          disabled={!filter.enabled}
+          aria-label="Filter type"
+          className={selectClass}
+        >
+          {FILTER_TYPES.map(type => (
+            <option key={type.id} value={type.id}>{type.label}</option>
+          ))}
+        </select>
+
+        <label className="flex flex-col gap-1">
+          <span className={`flex justify-between gap-2 ${labelClass}`}>
+            Cutoff
+            <span className={valueClass}>{formatHz(filter.cutoff)}</span>
+          </span>
+          <input
+            type="range"
+            min="0" max="1" step="0.001"
+            value={cutoffToSlider(filter.cutoff)}
+            onChange={(e) => onChange({ ...filter, cutoff: sliderToCutoff(parseFloat(e.target.value)) })}
+            disabled={!filter.enabled}
+            aria-label="Filter cutoff"
+            className={sliderClass}
+          />
+        </label>
+
+        {sliders.map(({ key, label, min, max, step, format }) => (
+          <label key={key} className="flex flex-col gap-1">
+            <span className={`flex justify-between gap-2 ${labelClass}`}>
+              {label}
+              <span className={valueClass}>{format(filter[key])}</span>
+            </span>
+            <input
+              type="range"
+              min={min} max={max} step={step}
+              value={filter[key]}
+              onChange={(e) => onChange({ ...filter, [key]: parseFloat(e.target.value) })}
+              disabled={!filter.enabled}
+              aria-label={`Filter ${label.toLowerCase()}`}
+              className={sliderClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      {/* The filter envelope moves the cutoff by up to the envelope amount */}
+      <div className={`flex flex-col gap-2 ${filter.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+        <span className={labelClass}>Filter Envelope</span>
+        <EnvelopePanel envelope={filter.envelope} onChange={(envelope) => onChange({ ...filter, envelope })} />
+      </div>
+    </div>
+  );
+});
+
+export default FilterPanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { KeyOverlay } from '../types';
+import { SCALES } from '../utils/scales';
+import { CHORD_SHAPES } from '../utils/chords';
+
+interface GuidePanelProps {
+  overlay: KeyOverlay;
+  onChange: (overlay: KeyOverlay) => void;
+  pitchClassNames: string[]; // Spelled for the current key
+}
+
+const MODES: { id: KeyOverlay['mode']; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'scale', label: 'Scale' },
+  { id: 'chord', label: 'Chord' },
+];
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const selectClass = "text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1";
+
+const GuidePanel: React.FC<GuidePanelProps> = React.memo(({ overlay, onChange, pitchClassNames }) => {
+  const isOff = overlay.mode === 'off';
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4 flex-wrap">
+      <div className="flex items-center bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {MODES.map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => onChange({ ...overlay, mode: mode.id })}
+            className={`px-3 py-1 text-xs font-bold uppercase tracking-wider transition ${overlay.mode === mode.id ? 'bg-blue-500 text-white' : 'text-gray-500 hover:text-blue-600'}`}
+            aria-pressed={overlay.mode === mode.id}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {!isOff && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className={labelClass}>Root</span>
+            <select
+              value={overlay.root}
+              onChange={(e) => onChange({ ...overlay, root: parseInt(e.target.value) })}
+              aria-label="Guide root note"
+              className={selectClass}
+            >
+              {pitchClassNames.map((name, pitchClass) => (
+                <option key={pitchClass} value={pitchClass}>{name}</option>
+              ))}
+            </select>
+          </div>
+
+          {overlay.mode === 'scale' ? (
+            <select
+              value={overlay.scaleId}
+              onChange={(e) => onChange({ ...overlay, scaleId: e.target.value })}
+              aria-label="Scale or mode"
+              className={selectClass}
+            >
+              {SCALES.map(scale => (
+                <option key={scale.id} value={scale.id}>{scale.name}</option>
+              ))}
+            </select>
+          ) : (
+            <select
+              value={overlay.chordSymbol}
+              onChange={(e) => onChange({ ...overlay, chordSymbol: e.target.value })}
+              aria-label="Chord type"
+              className={selectClass}
+            >
+              {CHORD_SHAPES.map(shape => (
+                <option key={shape.symbol} value={shape.symbol}>
+                  {pitchClassNames[overlay.root]}{shape.symbol} ({shape.name})
+                </option>
+              ))}
+            </select>
+          )}
+
+          <label className="flex items-center gap-1 text-xs font-bold text-gray-400 uppercase tracking-wider">
+            <input
+              type="checkbox"
+              checked={overlay.lockToScale}
+              onChange={(e) => onChange({ ...overlay, lockToScale: e.target.checked })}
+            />
+            Lock to {overlay.mode === 'scale' ? 'Scale' : 'Chord'}
+          </label>
+        </>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {overlay.lockToScale && !isOff
+          ? 'Computer-key notes outside the guide snap to the nearest highlighted key.'
+          : 'Highlighted keys show the notes of the chosen scale or chord; the root is marked.'}
+      </p>
+    </div>
+  );
+});
+
+export default GuidePanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { KeyboardLayout } from '../types';
+
+interface KeyboardLayoutPanelProps {
+  layouts: KeyboardLayout[];
+  layoutId: string;
+  selectLayout: (id: string) => void;
+  isLearning: boolean;
+  onToggleLearning: () => void;
+  learnKey: number | null;
+  noteNames: string[];
+}
+
+const KeyboardLayoutPanel: React.FC<KeyboardLayoutPanelProps> = React.memo(({
+  layouts, layoutId, selectLayout, isLearning, onToggleLearning, learnKey, noteNames
+}) => {
+  let hint = 'Learn mode lets you bind any computer key to a piano key.';
+  if (isLearning) {
+    hint = learnKey === null
+      ? 'Click a piano key to choose it. Esc to finish.'
+      : `Press a computer key for ${noteNames[learnKey]} (Backspace clears its keys).`;
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Layout</span>
+        <select
+          value={layoutId}
+          onChange={(e) => selectLayout(e.target.value)}
+          aria-label="Computer keyboard layout"
+          className="text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+        >
+          {layouts.map(layout => (
+            <option key={layout.id} value={layout.id}>{layout.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={onToggleLearning}
+        className={`px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95 ${isLearning ? 'bg-amber-400 text-white border-amber-400' : 'bg-white text-gray-600 border-gray-200 hover:text-blue-600'}`}
+        aria-pressed={isLearning}
+      >
+        {isLearning ? 'Done' : 'Learn'}
+      </button>
+
+      <p className="text-xs text-gray-500">{hint}</p>
+    </div>
+  );
+});
+
+export default KeyboardLayoutPanel;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { KEYBOARD_SIZES } from '../utils/constants';
+
+interface KeyboardSizeControlsProps {
+  keyCount: number;
+  onKeyCountChange: (keys: number) => void;
+  zoom: number;
+  maxZoom: number;
+  onZoomChange: (zoom: number) => void;
+  scroll: number;
+  onScrollChange: (scroll: number) => void;
+  showFallingNotes: boolean;
+  onShowFallingNotesChange: (show: boolean) => void;
+}
+
+const KeyboardSizeControls: React.FC<KeyboardSizeControlsProps> = React.memo(({
+  keyCount, onKeyCountChange, zoom, maxZoom, onZoomChange, scroll, onScrollChange, showFallingNotes, onShowFallingNotesChange
+}) => {
+  const canZoom = maxZoom > 1;
+
+  return (
+    <div className="flex items-center justify-center gap-4 flex-wrap">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Keys</span>
+        <select
+          value={keyCount}
+          onChange={(e) => onKeyCountChange(parseInt(e.target.value))}
+          aria-label="Keyboard size"
+          className="text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+        >
+          {KEYBOARD_SIZES.map(size => (
+            <option key={size.keys} value={size.keys}>{size.keys}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Zoom</span>
+        <input
+          type="range"
+          min="1" max={maxZoom} step="0.05"
+          value={zoom}
+          onChange={(e) => onZoomChange(parseFloat(e.target.value))}
+          disabled={!canZoom}
+          aria-label="Keyboard zoom"
+          className="w-24 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+        />
+      </div>
+
+      <label className="flex items-center gap-1 text-xs font-bold text-gray-400 uppercase tracking-wider">
+        <input
+          type="checkbox"
+          checked={showFallingNotes}
+          onChange={(e) => onShowFallingNotesChange(e.target.checked)}
+        />
+        Falling Notes
+      </label>
+
+      {zoom > 1 && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Scroll</span>
+          <input
+            type="range"
+            min="0" max="1" step="0.001"
+            value={scroll}
+            onChange={(e) => onScrollChange(parseFloat(e.target.value))}
+            aria-label="Keyboard scroll position"
+            className="w-40 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default KeyboardSizeControls;
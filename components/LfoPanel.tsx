@@ -0,0 +1,108 @@
+import React from 'react';
+import { LfoSettings } from '../types';
+import { LFO_DEPTHS, LFO_DIVISIONS, LFO_LABELS, LFO_WAVEFORMS } from '../utils/lfo';
+
+interface LfoPanelProps {
+  lfos: LfoSettings[];
+  onChange: (lfos: LfoSettings[]) => void;
+  tempo: number;
+}
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const selectClass = "text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1";
+const sliderClass = "w-24 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer";
+const valueClass = "text-xs font-semibold text-gray-600 w-14 tabular-nums";
+
+const formatDepth = (lfo: LfoSettings) => {
+  const { unit } = LFO_DEPTHS[lfo.target];
+  return unit ? `${lfo.depth} ${unit}` : `${Math.round(lfo.depth * 100)}%`;
+};
+
+const LfoPanel: React.FC<LfoPanelProps> = React.memo(({ lfos, onChange, tempo }) => {
+  const updateLfo = (index: number, changes: Partial<LfoSettings>) => {
+    onChange(lfos.map((lfo, i) => i === index ? { ...lfo, ...changes } : lfo));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {lfos.map((lfo, index) => {
+        const depth = LFO_DEPTHS[lfo.target];
+        return (
+          <div key={lfo.target} className={`flex flex-col sm:flex-row items-center gap-4 flex-wrap ${lfo.enabled ? '' : 'opacity-60'}`}>
+            <label className="flex items-center gap-1 w-24 text-xs font-bold text-gray-400 uppercase tracking-wider">
+              <input
+                type="checkbox"
+                checked={lfo.enabled}
+                onChange={(e) => updateLfo(index, { enabled: e.target.checked })}
+              />
+              {LFO_LABELS[lfo.target]}
+            </label>
+
+            <select
+              value={lfo.waveform}
+              onChange={(e) => updateLfo(index, { waveform: e.target.value as LfoSettings['waveform'] })}
+              aria-label={`${LFO_LABELS[lfo.target]} waveform`}
+              className={selectClass}
+            >
+              {LFO_WAVEFORMS.map(waveform => (
+                <option key={waveform.id} value={waveform.id}>{waveform.label}</option>
+              ))}
+            </select>
+
+            <div className="flex items-center gap-2">
+              <span className={labelClass}>Rate</span>
+              {lfo.sync ? (
+                <select
+                  value={lfo.division}
+                  onChange={(e) => updateLfo(index, { division: parseFloat(e.target.value) })}
+                  aria-label={`${LFO_LABELS[lfo.target]} note division`}
+                  className={selectClass}
+                >
+                  {LFO_DIVISIONS.map(division => (
+                    <option key={division.label} value={division.beats}>{division.label}</option>
+                  ))}
+                </select>
+              ) : (
+                <>
+                  <input
+                    type="range"
+                    min="0.1" max="20" step="0.1"
+                    value={lfo.rate}
+                    onChange={(e) => updateLfo(index, { rate: parseFloat(e.target.value) })}
+                    aria-label={`${LFO_LABELS[lfo.target]} rate`}
+                    className={sliderClass}
+                  />
+                  <span className={valueClass}>{lfo.rate.toFixed(1)} Hz</span>
+                </>
+              )}
+              <label className="flex items-center gap-1 text-xs text-gray-500" title={`Sync to ${tempo} BPM`}>
+                <input
+                  type="checkbox"
+                  checked={lfo.sync}
+                  onChange={(e) => updateLfo(index, { sync: e.target.checked })}
+                />
+                Sync
+              </label>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className={labelClass}>Depth</span>
+              <input
+                type="range"
+                min="0" max={depth.max} step={depth.step}
+                value={lfo.depth}
+                onChange={(e) => updateLfo(index, { depth: parseFloat(e.target.value) })}
+                aria-label={`${LFO_LABELS[lfo.target]} depth`}
+                className={sliderClass}
+              />
+              <span className={valueClass}>{formatDepth(lfo)}</span>
+            </div>
+          </div>
+        );
+      })}
+      <span className="text-xs text-gray-500">The filter LFO needs the filter section switched on. Vibrato doesn't reach the string model.</span>
+    </div>
+  );
+});
+
+export default LfoPanel;
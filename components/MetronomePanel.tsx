@@ -0,0 +1,144 @@
+import React, { useRef } from 'react';
+import { MetronomeSettings } from '../types';
+import { addTap, getTapTempo, resizeAccents, SUBDIVISIONS, TIME_SIGNATURES } from '../utils/metronome';
+
+interface MetronomePanelProps {
+  settings: MetronomeSettings;
+  onChange: (settings: MetronomeSettings) => void;
+  tempo: number;
+  onTempoChange: (tempo: number) => void;
+  isRunning: boolean;
+  beat: number | null;
+  onToggle: () => void;
+}
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const selectClass = "text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1";
+const buttonClass = "px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95";
+
+const clampTempo = (tempo: number) => Math.min(300, Math.max(30, tempo));
+
+const MetronomePanel: React.FC<MetronomePanelProps> = React.memo(({
+  settings, onChange, tempo, onTempoChange, isRunning, beat, onToggle
+}) => {
+  const taps = useRef<number[]>([]);
+
+  const handleTap = () => {
+    taps.current = addTap(taps.current, performance.now() / 1000);
+    const tapped = getTapTempo(taps.current);
+    if (tapped !== null) onTempoChange(clampTempo(tapped));
+  };
+
+  const toggleAccent = (index: number) => {
+    onChange({ ...settings, accents: settings.accents.map((accent, i) => i === index ? !accent : accent) });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row items-center gap-4 flex-wrap">
+        <button
+          onClick={onToggle}
+          className={`${buttonClass} ${isRunning ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-600 border-gray-200 hover:text-blue-600'}`}
+          aria-pressed={isRunning}
+        >
+          {isRunning ? 'Stop' : 'Start'}
+        </button>
+
+        <div className="flex items-center gap-2">
+          <span className={labelClass}>Tempo</span>
+          <input
+            type="number"
+            min="30" max="300"
+            value={tempo}
+            onChange={(e) => {
+              const value = parseInt(e.target.value);
+              if (!isNaN(value)) onTempoChange(clampTempo(value));
+            }}
+            aria-label="Metronome tempo"
+            className="w-16 text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+          />
+          <span className="text-xs text-gray-500">BPM</span>
+          <button onClick={handleTap} className={`${buttonClass} bg-white text-gray-600 border-gray-200 hover:text-blue-600`}>
+            Tap
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className={labelClass}>Time</span>
+          <select
+            value={`${settings.beatsPerBar}/${settings.beatUnit}`}
+            onChange={(e) => {
+              const [beatsPerBar, beatUnit] = e.target.value.split('/').map(Number);
+              onChange({ ...settings, beatsPerBar, beatUnit, accents: resizeAccents(settings.accents, beatsPerBar) });
+            }}
+            aria-label="Time signature"
+            className={selectClass}
+          >
+            {TIME_SIGNATURES.map(({ beatsPerBar, beatUnit }) => (
+              <option key={`${beatsPerBar}/${beatUnit}`} value={`${beatsPerBar}/${beatUnit}`}>{beatsPerBar}/{beatUnit}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className={labelClass}>Subdivide</span>
+          <select
+            value={settings.subdivision}
+            onChange={(e) => onChange({ ...settings, subdivision: parseInt(e.target.value) })}
+            aria-label="Metronome subdivision"
+            className={selectClass}
+          >
+            {SUBDIVISIONS.map(subdivision => (
+              <option key={subdivision.clicks} value={subdivision.clicks}>{subdivision.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className={labelClass}>Count-In</span>
+          <select
+            value={settings.countInBars}
+            onChange={(e) => onChange({ ...settings, countInBars: parseInt(e.target.value) })}
+            aria-label="Count-in bars before recording"
+            className={selectClass}
+          >
+            <option value={0}>Off</option>
+            <option value={1}>1 bar</option>
+            <option value={2}>2 bars</option>
+          </select>
+        </div>
+
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>Click</span>
+          <input
+            type="range"
+            min="0" max="1" step="0.01"
+            value={settings.volume}
+            onChange={(e) => onChange({ ...settings, volume: parseFloat(e.target.value) })}
+            aria-label="Metronome volume"
+            className="w-20 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </label>
+      </div>
+
+      {/* One button per beat: click to accent it; the current beat lights up */}
+      <div className="flex items-center gap-2">
+        <span className={labelClass}>Accents</span>
+        {settings.accents.map((accent, index) => (
+          <button
+            key={index}
+            onClick={() => toggleAccent(index)}
+            className={`w-7 h-7 text-xs font-bold rounded-full border transition ${accent ? 'border-blue-500 text-blue-600' : 'border-gray-200 text-gray-400'} ${beat === index ? 'bg-blue-100' : 'bg-white'}`}
+            aria-pressed={accent}
+            aria-label={`Accent beat ${index + 1}`}
+          >
+            {index + 1}
+          </button>
+        ))}
+        <span className="text-xs text-gray-500">The click plays straight to the speakers and is never recorded or exported.</span>
+      </div>
+    </div>
+  );
+});
+
+export default MetronomePanel;
@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { DecodedMidiFile, MidiFileFormat, Take } from '../types';
+import { decodeMidiFile, encodeMidiFile } from '../utils/midiFile';
+import { downloadBlob, toFileName } from '../utils/download';
+
+interface MidiFileControlsProps {
+  selectedTake: Take | null;
+  onImport: (name: string, file: DecodedMidiFile) => void;
+  disabled: boolean;
+}
+
+const buttonClass = "px-2 py-1 text-xs font-bold uppercase tracking-wider text-gray-600 hover:text-blue-600 transition active:scale-95 disabled:opacity-30 disabled:cursor-not-allowed";
+
+const MidiFileControls: React.FC<MidiFileControlsProps> = React.memo(({ selectedTake, onImport, disabled }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState<MidiFileFormat>(1);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const decoded = decodeMidiFile(new Uint8Array(await file.arrayBuffer()));
+      onImport(file.name.replace(/\.midi?$/i, ''), decoded);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read MIDI file');
+    }
+  };
+
+  const handleExport = () => {
+    if (!selectedTake) return;
+    const bytes = encodeMidiFile([selectedTake.events], { format, trackNames: [selectedTake.name] });
+    downloadBlob(new Blob([bytes], { type: 'audio/midi' }), toFileName(selectedTake.name, 'mid'));
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <input ref={fileInput} type="file" accept=".mid,.midi,audio/midi" onChange={handleFileChange} className="hidden" />
+      <button
+        onClick={() => fileInput.current?.click()}
+        disabled={disabled}
+        className={`${buttonClass} ${error ? 'text-red-500' : ''}`}
+        title={error ?? 'Load a .mid file as a new take'}
+        aria-label="Import MIDI file"
+      >
+        Open .mid
+      </button>
+      <div className="flex items-center bg-white rounded-lg shadow-sm border border-gray-200">
+        <select
+          value={format}
+          onChange={(e) => setFormat(parseInt(e.target.value) as MidiFileFormat)}
+          aria-label="MIDI file type"
+          className="text-xs font-medium text-gray-600 bg-transparent pl-2 py-1"
+        >
+          <option value={0}>Type 0</option>
+          <option value={1}>Type 1</option>
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={disabled || !selectedTake}
+          className={buttonClass}
+          title="Download selected take as a .mid file"
+          aria-label="Export MIDI file"
+        >
+          Save .mid
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export default MidiFileControls;
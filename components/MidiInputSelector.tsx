@@ -0,0 +1,39 @@
+import React from 'react';
+import { MidiInputInfo } from '../types';
+
+interface MidiInputSelectorProps {
+  isSupported: boolean;
+  inputs: MidiInputInfo[];
+  selectedInputId: string | null;
+  selectInput: (id: string | null) => void;
+  error: string | null;
+}
+
+const MidiInputSelector: React.FC<MidiInputSelectorProps> = React.memo(({
+  isSupported, inputs, selectedInputId, selectInput, error
+}) => {
+  const isUnavailable = !isSupported || !!error;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">MIDI</span>
+      <select
+        value={selectedInputId ?? ''}
+        onChange={(e) => selectInput(e.target.value || null)}
+        disabled={isUnavailable || inputs.length === 0}
+        aria-label="MIDI input device"
+        title={error ?? undefined}
+        className="max-w-[10rem] text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1 disabled:text-gray-400"
+      >
+        {isUnavailable && <option value="">Unavailable</option>}
+        {!isUnavailable && inputs.length === 0 && <option value="">No devices</option>}
+        {!isUnavailable && inputs.length > 0 && <option value="">None</option>}
+        {!isUnavailable && inputs.map(input => (
+          <option key={input.id} value={input.id}>{input.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+});
+
+export default MidiInputSelector;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { PedalState, PedalType } from '../types';
+import { DAMPER_CONTACT, FULL_PEDAL, isPedalDown, PEDAL_NAMES } from '../utils/pedals';
+
+interface PedalPanelProps {
+  pedals: PedalState;
+  onChange: (pedal: PedalType, value: number) => void;
+}
+
+const describeSustain = (depth: number) => {
+  if (depth >= FULL_PEDAL) return 'Full';
+  if (depth >= DAMPER_CONTACT) return 'Half';
+  return 'Up';
+};
+
+const PedalPanel: React.FC<PedalPanelProps> = React.memo(({ pedals, onChange }) => {
+  const toggles: PedalType[] = ['sostenuto', 'soft'];
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between text-xs font-bold text-gray-400 uppercase tracking-wider">
+          Sustain Depth
+          <span className="text-gray-600 normal-case tracking-normal font-semibold">
+            {describeSustain(pedals.sustain)} ({Math.round(pedals.sustain * 100)}%)
+          </span>
+        </span>
+        <input
+          type="range"
+          min="0" max="1" step="0.01"
+          value={pedals.sustain}
+          onChange={(e) => onChange('sustain', parseFloat(e.target.value))}
+          aria-label="Sustain pedal depth"
+          className="w-48 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+      </label>
+
+      {toggles.map((pedal) => {
+        const isDown = isPedalDown(pedals[pedal]);
+        return (
+          <button
+            key={pedal}
+            onClick={() => onChange(pedal, isDown ? 0 : 1)}
+            className={`px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95 ${isDown ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-600 border-gray-200 hover:text-blue-600'}`}
+            aria-pressed={isDown}
+          >
+            {PEDAL_NAMES[pedal]}
+          </button>
+        );
+      })}
+
+      <p className="text-xs text-gray-500">
+        Half pedal lets released notes fade slowly. Sostenuto holds only the keys down when it is pressed; soft pedal plays quieter and darker.
+      </p>
+    </div>
+  );
+});
+
+export default PedalPanel;
@@ -1,108 +1,195 @@
-import React, { useCallback, useEffect } from 'react';
-import { OctaveRange } from '../types';
-import { KEY_GEOMETRY, NOTE_NAMES, OFFSET_TO_LABEL, BLACK_KEY_HEIGHT_RATIO, BLACK_KEY_Y_OFFSET, SVG_VIEWBOX_HEIGHT_UNIT, ORIGINAL_WHITE_KEY_HEIGHT } from '../utils/constants';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { KeyHighlight, KeyRange } from '../types';
+import { BLACK_KEY_HEIGHT_RATIO, BLACK_KEY_Y_OFFSET, SVG_VIEWBOX_HEIGHT_UNIT } from '../utils/constants';
+import { getKeyboardWidth, getKeyRects, hitTestKey } from '../utils/keyLayout';
+import { getPointerVelocity } from '../utils/velocity';
 import WhiteKey from './WhiteKey';
 import BlackKey from './BlackKey';
 
 interface PianoKeysProps {
   activeKeys: Set<number>;
-  playNote: (midi: number, vol?: number) => void;
-  stopNote: (midi: number, isGlobalSustainActive: boolean) => void;
-  octaves: OctaveRange;
+  playNote: (midi: number, velocity?: number) => void;
+  stopNote: (midi: number) => void;
+  range: KeyRange;
+  zoom: number; // 1 shows the whole range; higher values show a narrower window
+  scroll: number; // 0-1, position of the visible window across the range
+  onScrollChange?: (scroll: number) => void; // Horizontal wheel / trackpad scrolling
   octaveOffset: number; // needed for label mapping
-  volume: number;
+  transpose: number; // Semitones added to computer-key notes, on top of the octave shift
+  noteNames: string[]; // Per MIDI note, spelled for the selected key and naming
+  offsetLabels: { [offset: number]: string }; // From the active computer-keyboard layout
+  onKeySelect?: (midi: number) => void; // When set, clicks select a key instead of playing it
+  selectedKey?: number | null;
+  centLabels?: (string | null)[] | null; // Per MIDI note, when a non-equal tuning is active
+  highlights?: (KeyHighlight | null)[] | null; // Per pitch class, when a scale or chord guide is shown
+  expectedKeys?: Set<number>; // Practice mode: keys to play next
+  keysRef?: React.RefObject<SVGSVGElement | null>; // Lets overlays (e.g. falling notes) line up with the keys
 }
 
-const PianoKeys: React.FC<PianoKeysProps> = React.memo(({ activeKeys, playNote, stopNote, octaves, octaveOffset, volume }) => {
-  const { start: firstOctave, end: lastOctave } = octaves;
-  
+const PianoKeys: React.FC<PianoKeysProps> = React.memo(({
+  activeKeys, playNote, stopNote, range, zoom, scroll, onScrollChange, octaveOffset, transpose, noteNames, offsetLabels, onKeySelect, selectedKey, centLabels, highlights, expectedKeys, keysRef
+}) => {
+  const ownSvgRef = useRef<SVGSVGElement>(null);
+  const svgRef = keysRef ?? ownSvgRef;
+  // Key currently under each pointer (null while a dragged pointer is off the keys)
+  const pointerKeys = useRef<Map<number, number | null>>(new Map());
+
   // Layout Metrics
   const viewboxHeight = SVG_VIEWBOX_HEIGHT_UNIT; // Use the defined unit for SVG height
   const whiteKeyHeight = viewboxHeight; // White keys fill the SVG height
   const blackKeyHeight = viewboxHeight * BLACK_KEY_HEIGHT_RATIO;
-  
-  // We'll treat width as percentage or relative units (0 to totalOctaves)
-  // To allow SVG to scale, we set viewBox width = totalOctaves * 1000 (arbitrary large unit)
-  const UNIT_WIDTH = 1000;
-  const totalWhiteKeys = (lastOctave - firstOctave + 1) * 7 + 1; // 7 white keys per octave + final C
-  const svgWidth = totalWhiteKeys * (UNIT_WIDTH / 7); // total width based on number of white keys
+
+  const keyRects = useMemo(() => getKeyRects(range), [range]);
+  const svgWidth = getKeyboardWidth(keyRects);
+
+  // Zooming narrows the viewBox; scrolling slides it across the full keyboard
+  const viewWidth = svgWidth / Math.max(1, zoom);
+  const viewX = Math.min(1, Math.max(0, scroll)) * (svgWidth - viewWidth);
+
+  // Native listener so the page doesn't scroll sideways along with the keys
+  const scrollRef = useRef({ scroll, onScrollChange, hiddenWidth: svgWidth - viewWidth });
+  scrollRef.current = { scroll, onScrollChange, hiddenWidth: svgWidth - viewWidth };
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      const { scroll, onScrollChange, hiddenWidth } = scrollRef.current;
+      const delta = e.shiftKey ? e.deltaY : e.deltaX;
+      if (!onScrollChange || hiddenWidth <= 0 || delta === 0) return;
+      e.preventDefault();
+      const matrix = svg.getScreenCTM();
+      const unitsPerPixel = matrix ? 1 / matrix.a : 1;
+      onScrollChange(Math.min(1, Math.max(0, scroll + (delta * unitsPerPixel) / hiddenWidth)));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
 
   const getKeyLabel = useCallback((midi: number) => {
     const baseMidi = 60; // C4
-    const offset = midi - baseMidi - octaveOffset;
-    return OFFSET_TO_LABEL[offset] || null;
-  }, [octaveOffset]);
+    const offset = midi - baseMidi - octaveOffset - transpose;
+    return offsetLabels[offset] || null;
+  }, [octaveOffset, transpose, offsetLabels]);
+
+  // --- Pointer tracking ---
+  // Handled once for the whole keyboard rather than per key, so a drag can slide
+  // from key to key (glissando) and every touch point is tracked by its pointerId.
+
+  const toSvgPoint = (e: React.PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    return new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+  };
+
+  const findKey = (e: React.PointerEvent) => {
+    const point = toSvgPoint(e);
+    if (!point) return null;
+    const rect = hitTestKey(keyRects, point.x, point.y, BLACK_KEY_Y_OFFSET + blackKeyHeight);
+    if (!rect) return null;
+    const keyHeight = rect.isWhite ? whiteKeyHeight : blackKeyHeight;
+    return { midi: rect.midi, velocity: getPointerVelocity(point.y / keyHeight, e.pressure, e.pointerType) };
+  };
+
+  const isHeldByOtherPointer = (midi: number, pointerId: number) => {
+    for (const [id, heldMidi] of pointerKeys.current) {
+      if (id !== pointerId && heldMidi === midi) return true;
+    }
+    return false;
+  };
+
+  const movePointerTo = (pointerId: number, key: { midi: number; velocity: number } | null) => {
+    const previous = pointerKeys.current.get(pointerId) ?? null;
+    const next = key ? key.midi : null;
+    if (previous === next) return;
+
+    pointerKeys.current.set(pointerId, next);
+    if (previous !== null && !isHeldByOtherPointer(previous, pointerId)) {
+      stopNote(previous);
+    }
+    if (key && !isHeldByOtherPointer(key.midi, pointerId)) {
+      playNote(key.midi, key.velocity);
+    }
+  };
+
+  const releasePointer = (pointerId: number) => {
+    if (!pointerKeys.current.has(pointerId)) return;
+    movePointerTo(pointerId, null);
+    pointerKeys.current.delete(pointerId);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.preventDefault();
+    if (onKeySelect) {
+      const key = findKey(e);
+      if (key) onKeySelect(key.midi);
+      return;
+    }
+    // Capture so moves and the release still reach us after leaving the keyboard
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerKeys.current.set(e.pointerId, null);
+    movePointerTo(e.pointerId, findKey(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!pointerKeys.current.has(e.pointerId)) return;
+    e.preventDefault();
+    movePointerTo(e.pointerId, findKey(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    releasePointer(e.pointerId);
+  };
 
   const renderKeyComponents = useCallback((isWhiteKeyLayer: boolean) => {
-    const keyComponents: React.ReactNode[] = [];
-    
-    // Iterate octaves
-    for (let octave = firstOctave; octave <= lastOctave + 1; octave++) {
-      // Iterate 12 semitones
-      for (let pc = 0; pc < 12; pc++) {
-        const midi = octave * 12 + pc + 12;
-        
-        // Safety bounds
-        if (midi < 24 || midi > 108) continue;
-        
-        // Stop after the last C of the last octave
-        if (octave > lastOctave && pc > 0) break;
-        if (octave > lastOctave && pc === 0) {
-            // This is the trailing C
-        } else if (octave > lastOctave) {
-            continue;
-        }
-
-        const keyInfo = KEY_GEOMETRY[pc];
-        if (!keyInfo || keyInfo.isWhite !== isWhiteKeyLayer) continue;
-
-        // Calculate X Position
-        const octaveStart = (octave - firstOctave) * (UNIT_WIDTH / 7 * 7); // Full octave width
-        const x = octaveStart + (keyInfo.x * UNIT_WIDTH); // Use UNIT_WIDTH here for scaling consistency
-        const w = keyInfo.w * UNIT_WIDTH;
-
-        const isActive = activeKeys.has(midi);
-        const keyLabel = getKeyLabel(midi);
-        
-        if (isWhiteKeyLayer) {
-            keyComponents.push(
-                <WhiteKey
-                    key={midi}
-                    midi={midi}
-                    x={x}
-                    w={w}
-                    height={whiteKeyHeight}
-                    isActive={isActive}
-                    keyLabel={keyLabel}
-                    octave={octave}
-                    volume={volume}
-                    playNote={playNote}
-                    stopNote={stopNote as any} // Cast as stopNote now expects isGlobalSustainActive
-                    viewboxHeight={viewboxHeight}
-                />
-            );
-        } else {
-            keyComponents.push(
-                <BlackKey
-                    key={midi}
-                    midi={midi}
-                    x={x}
-                    w={w}
-                    height={blackKeyHeight}
-                    yOffset={BLACK_KEY_Y_OFFSET}
-                    isActive={isActive}
-                    keyLabel={keyLabel}
-                    volume={volume}
-                    playNote={playNote}
-                    stopNote={stopNote as any} // Cast as stopNote now expects isGlobalSustainActive
-                    viewboxHeight={viewboxHeight}
-                />
-            );
-        }
+    return keyRects.filter(rect => rect.isWhite === isWhiteKeyLayer).map(({ midi, x, w }) => {
+      const isActive = activeKeys.has(midi);
+      const keyLabel = getKeyLabel(midi);
+      const isSelected = midi === selectedKey;
+      const centLabel = centLabels?.[midi] ?? null;
+      const highlight = highlights?.[midi % 12] ?? null;
+      const isExpected = expectedKeys?.has(midi) ?? false;
+
+      if (isWhiteKeyLayer) {
+        return (
+          <WhiteKey
+            key={midi}
+            midi={midi}
+            x={x}
+            w={w}
+            height={whiteKeyHeight}
+            isActive={isActive}
+            keyLabel={keyLabel}
+            isSelected={isSelected}
+            centLabel={centLabel}
+            highlight={highlight}
+            isExpected={isExpected}
+            noteName={noteNames[midi]}
+            viewboxHeight={viewboxHeight}
+          />
+        );
       }
-    }
-    return keyComponents;
-  }, [firstOctave, lastOctave, activeKeys, playNote, stopNote, volume, svgWidth, getKeyLabel, viewboxHeight, whiteKeyHeight, blackKeyHeight]);
+      return (
+        <BlackKey
+          key={midi}
+          midi={midi}
+          x={x}
+          w={w}
+          height={blackKeyHeight}
+          yOffset={BLACK_KEY_Y_OFFSET}
+          isActive={isActive}
+          keyLabel={keyLabel}
+          isSelected={isSelected}
+          centLabel={centLabel}
+          highlight={highlight}
+          isExpected={isExpected}
+          noteName={noteNames[midi]}
+          viewboxHeight={viewboxHeight}
+        />
+      );
+    });
+  }, [keyRects, activeKeys, getKeyLabel, selectedKey, centLabels, highlights, expectedKeys, noteNames, viewboxHeight, whiteKeyHeight, blackKeyHeight]);
 
 
   return (
@@ -140,11 +227,17 @@ const PianoKeys: React.FC<PianoKeysProps> = React.memo(({ activeKeys, playNote,
       <div className="h-4 w-full bg-[#6a040f] shadow-[inset_0_2px_4px_rgba(0,0,0,0.5)] border-b border-[#370617] relative z-0"></div>
       
       <svg
-        viewBox={`0 0 ${svgWidth} ${viewboxHeight}`}
-        className="w-full h-full block touch-none"
+        ref={svgRef}
+        viewBox={`${viewX} 0 ${viewWidth} ${viewboxHeight}`}
+        className="w-full h-full block touch-none cursor-pointer"
         preserveAspectRatio="xMinYMin meet"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onLostPointerCapture={handlePointerUp}
       >
-        <rect width="100%" height="100%" fill="#0a0a0a" />
+        <rect width={svgWidth} height={viewboxHeight} fill="#0a0a0a" />
         {renderKeyComponents(true)}
         {renderKeyComponents(false)}
       </svg>
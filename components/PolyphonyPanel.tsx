@@ -0,0 +1,49 @@
+import React from 'react';
+import { PolyphonySettings, VoiceStealingMode } from '../types';
+import { POLYPHONY_LIMITS, STEALING_MODES } from '../utils/voiceAllocator';
+
+interface PolyphonyPanelProps {
+  polyphony: PolyphonySettings;
+  onChange: (polyphony: PolyphonySettings) => void;
+}
+
+const PolyphonyPanel: React.FC<PolyphonyPanelProps> = React.memo(({ polyphony, onChange }) => {
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between text-xs font-bold text-gray-400 uppercase tracking-wider">
+          Max Voices
+          <span className="text-gray-600 normal-case tracking-normal font-semibold">{polyphony.maxVoices}</span>
+        </span>
+        <input
+          type="range"
+          min={POLYPHONY_LIMITS.min} max={POLYPHONY_LIMITS.max} step="1"
+          value={polyphony.maxVoices}
+          onChange={(e) => onChange({ ...polyphony, maxVoices: parseInt(e.target.value) })}
+          aria-label="Maximum polyphony"
+          className="w-40 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+      </label>
+
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Steal</span>
+        <select
+          value={polyphony.stealing}
+          onChange={(e) => onChange({ ...polyphony, stealing: e.target.value as VoiceStealingMode })}
+          aria-label="Voice stealing strategy"
+          className="text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+        >
+          {STEALING_MODES.map(mode => (
+            <option key={mode.id} value={mode.id}>{mode.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        When every voice is busy, releasing notes are reused first, then the chosen strategy picks which held note fades out.
+      </p>
+    </div>
+  );
+});
+
+export default PolyphonyPanel;
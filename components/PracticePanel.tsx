@@ -0,0 +1,164 @@
+import React from 'react';
+import { PracticeOptions, PracticeSummary, Take } from '../types';
+import { HANDS } from '../utils/lesson';
+
+interface PracticePanelProps {
+  take: Take | null;
+  options: PracticeOptions;
+  onChange: (options: PracticeOptions) => void;
+  noteNames: string[];
+  status: 'idle' | 'running' | 'finished';
+  progress: { done: number; total: number };
+  summary: PracticeSummary | null;
+  lastPassSummary: PracticeSummary | null;
+  pass: number;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const inputClass = "w-16 text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1 disabled:opacity-50";
+const statClass = "flex flex-col items-center px-3 py-1 bg-white rounded-lg border border-gray-200 shadow-sm";
+
+const formatMs = (ms: number | null) => ms === null ? '–' : `${ms}ms`;
+
+const PracticePanel: React.FC<PracticePanelProps> = React.memo(({
+  take, options, onChange, noteNames, status, progress, summary, lastPassSummary, pass, onStart, onStop
+}) => {
+  const isRunning = status === 'running';
+  const duration = take ? Math.round(take.duration * 10) / 10 : 0;
+  const section = options.section ?? { start: 0, end: duration };
+
+  const updateSection = (changes: Partial<{ start: number; end: number }>) => {
+    const next = { ...section, ...changes };
+    onChange({ ...options, section: { start: Math.max(0, Math.min(next.start, next.end)), end: Math.min(duration, Math.max(next.start, next.end)) } });
+  };
+
+  const renderStats = (title: string, score: PracticeSummary) => {
+    const stats = [
+      { label: 'Hits', value: score.hits },
+      { label: 'Misses', value: score.misses },
+      { label: 'Wrong', value: score.wrongNotes },
+      { label: 'Early', value: formatMs(score.averageEarlyMs) },
+      { label: 'Late', value: formatMs(score.averageLateMs) },
+      { label: 'Accuracy', value: `${Math.round(score.accuracy * 100)}%` },
+    ];
+    return (
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className={`${labelClass} w-20`}>{title}</span>
+        {stats.map(stat => (
+          <div key={stat.label} className={statClass}>
+            <span className="text-sm font-semibold text-gray-800 tabular-nums">{stat.value}</span>
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{stat.label}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row items-center gap-4 flex-wrap">
+        <button
+          onClick={isRunning ? onStop : onStart}
+          disabled={!take}
+          className={`px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95 disabled:opacity-30 ${isRunning ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-600 border-gray-200 hover:text-blue-600'}`}
+        >
+          {isRunning ? 'Stop' : 'Practice'}
+        </button>
+
+        <div className="flex items-center bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          {HANDS.map(hand => (
+            <button
+              key={hand.id}
+              onClick={() => onChange({ ...options, hand: hand.id })}
+              disabled={isRunning}
+              className={`px-3 py-1 text-xs font-bold uppercase tracking-wider transition ${options.hand === hand.id ? 'bg-blue-500 text-white' : 'text-gray-500 hover:text-blue-600'}`}
+              aria-pressed={options.hand === hand.id}
+            >
+              {hand.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>Split</span>
+          <input
+            type="range"
+            min="36" max="84"
+            value={options.splitPoint}
+            onChange={(e) => onChange({ ...options, splitPoint: parseInt(e.target.value) })}
+            disabled={isRunning || options.hand === 'both'}
+            aria-label="Split point between hands"
+            className="w-24 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+          />
+          <span className="text-xs font-semibold text-gray-600 w-8">{noteNames[options.splitPoint]}</span>
+        </label>
+
+        <label className="flex items-center gap-1 text-xs font-bold text-gray-400 uppercase tracking-wider">
+          <input
+            type="checkbox"
+            checked={options.waitForNotes}
+            onChange={(e) => onChange({ ...options, waitForNotes: e.target.checked })}
+            disabled={isRunning}
+          />
+          Wait for Notes
+        </label>
+
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs font-bold text-gray-400 uppercase tracking-wider">
+            <input
+              type="checkbox"
+              checked={options.section !== null}
+              onChange={(e) => onChange({ ...options, section: e.target.checked ? { start: 0, end: duration } : null })}
+              disabled={isRunning || !take}
+            />
+            Section
+          </label>
+          <input
+            type="number"
+            min="0" max={duration} step="0.5"
+            value={section.start}
+            onChange={(e) => updateSection({ start: parseFloat(e.target.value) || 0 })}
+            disabled={isRunning || options.section === null}
+            aria-label="Section start in seconds"
+            className={inputClass}
+          />
+          <span className="text-xs text-gray-500">to</span>
+          <input
+            type="number"
+            min="0" max={duration} step="0.5"
+            value={section.end}
+            onChange={(e) => updateSection({ end: parseFloat(e.target.value) || 0 })}
+            disabled={isRunning || options.section === null}
+            aria-label="Section end in seconds"
+            className={inputClass}
+          />
+          <span className="text-xs text-gray-500">s</span>
+        </div>
+
+        <label className="flex items-center gap-1 text-xs font-bold text-gray-400 uppercase tracking-wider">
+          <input
+            type="checkbox"
+            checked={options.loop}
+            onChange={(e) => onChange({ ...options, loop: e.target.checked })}
+          />
+          Loop
+        </label>
+      </div>
+
+      <div className="flex items-center gap-4 flex-wrap">
+        {summary && renderStats(isRunning ? 'This Pass' : 'Score', summary)}
+        {lastPassSummary && isRunning && renderStats('Last Pass', lastPassSummary)}
+        <p className="text-xs text-gray-500">
+          {!take && 'Record a take or import a MIDI file to practise it.'}
+          {take && isRunning && `${take.name}: step ${Math.min(progress.done + 1, progress.total)} of ${progress.total}${pass > 0 ? `, pass ${pass + 1}` : ''}`}
+          {take && status === 'finished' && 'Finished. Press Practice to go again.'}
+          {take && status === 'idle' && `Practise "${take.name}": the keys to play next are outlined in blue.`}
+        </p>
+      </div>
+    </div>
+  );
+});
+
+export default PracticePanel;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { SYNTH_PRESETS } from '../utils/presets';
+
+interface PresetSelectorProps {
+  presetId: string;
+  onChange: (presetId: string) => void;
+}
+
+const PresetSelector: React.FC<PresetSelectorProps> = React.memo(({ presetId, onChange }) => {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Sound</span>
+      <select
+        value={presetId}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label="Sound preset"
+        className="max-w-[10rem] text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+      >
+        {SYNTH_PRESETS.map(preset => (
+          <option key={preset.id} value={preset.id}>{preset.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+});
+
+export default PresetSelector;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { RecorderStatus, Take } from '../types';
+
+interface RecorderControlsProps {
+  status: RecorderStatus;
+  takes: Take[];
+  selectedTakeId: string | null;
+  selectTake: (id: string | null) => void;
+  record: () => void;
+  isCountingIn?: boolean; // Record was pressed and the metronome is counting in
+  overdub: () => void;
+  play: () => void;
+  stop: () => void;
+  deleteTake: (id: string) => void;
+}
+
+const buttonClass = "p-1.5 rounded-lg transition active:scale-95 disabled:opacity-30 disabled:cursor-not-allowed";
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${secs}`;
+};
+
+const RecorderControls: React.FC<RecorderControlsProps> = React.memo(({
+  status, takes, selectedTakeId, selectTake, record, isCountingIn, overdub, play, stop, deleteTake
+}) => {
+  const isIdle = status === 'idle';
+  const isRecording = status === 'recording' || status === 'overdubbing';
+  const hasTake = !!selectedTakeId;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Rec</span>
+      <div className="flex items-center bg-white rounded-lg shadow-sm border border-gray-200 px-1">
+        <button
+          onClick={record}
+          disabled={!isIdle || isCountingIn}
+          className={`${buttonClass} ${isRecording ? 'text-red-500 animate-pulse' : isCountingIn ? 'text-amber-500 animate-pulse' : 'text-gray-600 hover:text-red-500'}`}
+          title={isCountingIn ? "Counting in…" : "Record new take"}
+          aria-label="Record"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><circle cx="12" cy="12" r="7" /></svg>
+        </button>
+        <button
+          onClick={overdub}
+          disabled={!isIdle || !hasTake || isCountingIn}
+          className={`${buttonClass} ${status === 'overdubbing' ? 'text-red-500' : 'text-gray-600 hover:text-red-500'}`}
+          title="Overdub onto selected take"
+          aria-label="Overdub"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><circle cx="9" cy="12" r="5" /><circle cx="17" cy="12" r="4" opacity="0.5" /></svg>
+        </button>
+        <button
+          onClick={play}
+          disabled={!isIdle || !hasTake || isCountingIn}
+          className={`${buttonClass} ${status === 'playing' ? 'text-blue-600' : 'text-gray-600 hover:text-blue-600'}`}
+          title="Play selected take"
+          aria-label="Play"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><path d="M7 5v14l12-7z" /></svg>
+        </button>
+        <button
+          onClick={stop}
+          disabled={isIdle && !isCountingIn}
+          className={`${buttonClass} text-gray-600 hover:text-gray-900`}
+          title="Stop"
+          aria-label="Stop"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="6" width="12" height="12" rx="1" /></svg>
+        </button>
+      </div>
+
+      <select
+        value={selectedTakeId ?? ''}
+        onChange={(e) => selectTake(e.target.value || null)}
+        disabled={!isIdle || takes.length === 0}
+        aria-label="Recorded takes"
+        className="max-w-[9rem] text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1 disabled:text-gray-400"
+      >
+        {takes.length === 0 && <option value="">No takes</option>}
+        {takes.map(take => (
+          <option key={take.id} value={take.id}>{take.name} ({formatDuration(take.duration)})</option>
+        ))}
+      </select>
+      {hasTake && (
+        <button
+          onClick={() => deleteTake(selectedTakeId!)}
+          disabled={!isIdle}
+          className={`${buttonClass} text-gray-400 hover:text-red-500`}
+          title="Delete take"
+          aria-label="Delete selected take"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+});
+
+export default RecorderControls;
@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+import { SampleSet } from '../types';
+
+interface SamplePanelProps {
+  sampleSet: SampleSet | null;
+  onLoad: (files: File[]) => Promise<void>;
+}
+
+const SamplePanel: React.FC<SamplePanelProps> = React.memo(({ sampleSet, onLoad }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow reloading the same pack
+    if (files.length === 0) return;
+
+    setIsLoading(true);
+    try {
+      await onLoad(files);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load samples');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const layerCount = sampleSet ? new Set(sampleSet.zones.map(zone => `${zone.lowVelocity}-${zone.highVelocity}`)).size : 0;
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4">
+      <input ref={fileInput} type="file" multiple accept=".json,audio/*" onChange={handleFileChange} className="hidden" />
+      <button
+        onClick={() => fileInput.current?.click()}
+        disabled={isLoading}
+        className="px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95 bg-white text-gray-600 border-gray-200 hover:text-blue-600 disabled:opacity-30"
+      >
+        {isLoading ? 'Loading…' : 'Load Samples'}
+      </button>
+
+      {sampleSet && (
+        <span className="text-sm font-medium text-gray-700">
+          {sampleSet.name}
+          <span className="ml-2 text-xs text-gray-400">
+            {sampleSet.zones.length} samples, {layerCount} velocity {layerCount === 1 ? 'layer' : 'layers'}
+          </span>
+        </span>
+      )}
+
+      <p className={`text-xs ${error ? 'text-red-500' : 'text-gray-500'}`}>
+        {error ?? 'Select the audio files plus an optional .json sample map. Without a map, root notes are read from file names such as "Piano_C4.wav".'}
+      </p>
+    </div>
+  );
+});
+
+export default SamplePanel;
@@ -0,0 +1,163 @@
+import React, { useMemo } from 'react';
+import { SequencerSettings, SequencerStep } from '../types';
+import { STEP_RATES } from '../utils/arpeggiator';
+import { getPatternPitches, SEQUENCER_STEPS } from '../utils/sequencer';
+
+interface SequencerPanelProps {
+  settings: SequencerSettings;
+  onChange: (settings: SequencerSettings) => void;
+  steps: SequencerStep[];
+  noteNames: string[];
+  isPlaying: boolean;
+  currentStep: number | null;
+  isRecording: boolean;
+  recordStep: number;
+  onToggle: () => void;
+  onToggleRecording: () => void;
+  onRest: () => void;
+  onClear: () => void;
+  onToggleNote: (index: number, midi: number) => void;
+  onSelectStep: (index: number) => void;
+}
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const selectClass = "text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1";
+const sliderClass = "w-20 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer";
+const buttonClass = "px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95";
+const idleButtonClass = "bg-white text-gray-600 border-gray-200 hover:text-blue-600";
+
+const SequencerPanel: React.FC<SequencerPanelProps> = React.memo(({
+  settings, onChange, steps, noteNames, isPlaying, currentStep, isRecording, recordStep,
+  onToggle, onToggleRecording, onRest, onClear, onToggleNote, onSelectStep
+}) => {
+  const pitches = useMemo(() => getPatternPitches(steps), [steps]);
+  const stepIndexes = Array.from({ length: SEQUENCER_STEPS }, (_, i) => i);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row items-center gap-4 flex-wrap">
+        <button
+          onClick={onToggle}
+          className={`${buttonClass} ${isPlaying ? 'bg-blue-500 text-white border-blue-500' : idleButtonClass}`}
+          aria-pressed={isPlaying}
+        >
+          {isPlaying ? 'Stop' : 'Play'}
+        </button>
+        <button
+          onClick={onToggleRecording}
+          className={`${buttonClass} ${isRecording ? 'bg-red-500 text-white border-red-500' : idleButtonClass}`}
+          aria-pressed={isRecording}
+          title="Step-record from the keyboard: keys played together fill one step"
+        >
+          Rec
+        </button>
+        <button onClick={onRest} disabled={!isRecording} className={`${buttonClass} ${idleButtonClass} disabled:opacity-30`}>
+          Rest
+        </button>
+        <button onClick={onClear} className={`${buttonClass} ${idleButtonClass}`}>
+          Clear
+        </button>
+
+        <div className="flex items-center gap-2">
+          <span className={labelClass}>Steps</span>
+          <select
+            value={settings.length}
+            onChange={(e) => onChange({ ...settings, length: parseInt(e.target.value) })}
+            aria-label="Pattern length in steps"
+            className={selectClass}
+          >
+            {stepIndexes.map(i => (
+              <option key={i} value={i + 1}>{i + 1}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className={labelClass}>Rate</span>
+          <select
+            value={settings.rate}
+            onChange={(e) => onChange({ ...settings, rate: parseFloat(e.target.value) })}
+            aria-label="Sequencer step rate"
+            className={selectClass}
+          >
+            {STEP_RATES.map(rate => (
+              <option key={rate.label} value={rate.beats}>{rate.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>Gate</span>
+          <input
+            type="range"
+            min="0.05" max="1" step="0.05"
+            value={settings.gate}
+            onChange={(e) => onChange({ ...settings, gate: parseFloat(e.target.value) })}
+            aria-label="Sequencer gate length"
+            className={sliderClass}
+          />
+        </label>
+
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>Swing</span>
+          <input
+            type="range"
+            min="0" max="0.5" step="0.01"
+            value={settings.swing}
+            onChange={(e) => onChange({ ...settings, swing: parseFloat(e.target.value) })}
+            aria-label="Sequencer swing"
+            className={sliderClass}
+          />
+        </label>
+      </div>
+
+      {/* Step grid: one row per pitch in the pattern; click a cell to toggle it */}
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th></th>
+              {stepIndexes.map(i => (
+                <th key={i}>
+                  <button
+                    onClick={() => onSelectStep(i)}
+                    disabled={i >= settings.length}
+                    className={`w-7 h-5 text-[10px] font-bold rounded transition disabled:opacity-30 ${currentStep === i ? 'bg-blue-500 text-white' : isRecording && recordStep === i ? 'bg-red-100 text-red-600' : 'text-gray-400 hover:text-blue-600'}`}
+                    aria-label={`Record into step ${i + 1}`}
+                  >
+                    {i + 1}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pitches.map(midi => (
+              <tr key={midi}>
+                <td className="pr-2 text-right text-xs font-semibold text-gray-600 whitespace-nowrap">{noteNames[midi]}</td>
+                {stepIndexes.map(i => {
+                  const isOn = steps[i].notes.includes(midi);
+                  return (
+                    <td key={i}>
+                      <button
+                        onClick={() => onToggleNote(i, midi)}
+                        className={`w-7 h-5 rounded border transition ${isOn ? 'bg-blue-500 border-blue-500' : `${i % 4 === 0 ? 'bg-gray-100' : 'bg-white'} border-gray-200 hover:border-blue-300`} ${i >= settings.length ? 'opacity-30' : ''}`}
+                        aria-pressed={isOn}
+                        aria-label={`${noteNames[midi]} on step ${i + 1}`}
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {pitches.length === 0 && (
+          <p className="text-xs text-gray-500">Press Rec and play the keyboard to enter notes step by step; use Rest to skip a step.</p>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default SequencerPanel;
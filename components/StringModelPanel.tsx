@@ -0,0 +1,41 @@
+import React from 'react';
+import { StringModelSettings } from '../types';
+
+interface StringModelPanelProps {
+  settings: StringModelSettings;
+  onChange: (settings: StringModelSettings) => void;
+}
+
+const CONTROLS: { key: keyof StringModelSettings; label: string }[] = [
+  { key: 'stiffness', label: 'Stiffness' },
+  { key: 'damping', label: 'Damping' },
+];
+
+const StringModelPanel: React.FC<StringModelPanelProps> = React.memo(({ settings, onChange }) => {
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      {CONTROLS.map(({ key, label }) => (
+        <label key={key} className="flex flex-col gap-1">
+          <span className="flex justify-between text-xs font-bold text-gray-400 uppercase tracking-wider">
+            {label}
+            <span className="text-gray-600 normal-case tracking-normal font-semibold">{Math.round(settings[key] * 100)}%</span>
+          </span>
+          <input
+            type="range"
+            min="0" max="1" step="0.01"
+            value={settings[key]}
+            onChange={(e) => onChange({ ...settings, [key]: parseFloat(e.target.value) })}
+            aria-label={`String ${label.toLowerCase()}`}
+            className="w-40 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </label>
+      ))}
+
+      <p className="text-xs text-gray-500">
+        Applies to the String Model voice. Stiffness adds the slightly sharp upper partials of real piano strings; the sustain pedal lowers damping.
+      </p>
+    </div>
+  );
+});
+
+export default StringModelPanel;
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { TuningSettings } from '../types';
+import { NOTE_NAMES } from '../utils/constants';
+import { SCALA_TEMPERAMENT, TEMPERAMENTS } from '../utils/tuning';
+import { parseKeyboardMapping, parseScalaScale } from '../utils/scala';
+
+interface TuningPanelProps {
+  tuning: TuningSettings;
+  onChange: (tuning: TuningSettings) => void;
+}
+
+const labelClass = "text-xs font-bold text-gray-400 uppercase tracking-wider";
+const selectClass = "text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1 disabled:opacity-50";
+const buttonClass = "px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-lg border transition active:scale-95 bg-white text-gray-600 border-gray-200 hover:text-blue-600";
+
+const TuningPanel: React.FC<TuningPanelProps> = React.memo(({ tuning, onChange }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // .scl and .kbm files can be picked together or one at a time
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow reloading the same file
+    if (files.length === 0) return;
+
+    try {
+      let next = { ...tuning };
+      for (const file of files) {
+        const text = await file.text();
+        if (file.name.toLowerCase().endsWith('.kbm')) {
+          next.keyboardMapping = parseKeyboardMapping(text);
+        } else {
+          next = { ...next, temperament: SCALA_TEMPERAMENT, scale: parseScalaScale(text) };
+        }
+      }
+      onChange(next);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read tuning file');
+    }
+  };
+
+  const isScala = tuning.temperament === SCALA_TEMPERAMENT;
+  // A keyboard mapping carries its own reference key and frequency
+  const usesMappingReference = isScala && tuning.keyboardMapping !== null;
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4 flex-wrap">
+      <div className="flex items-center gap-2">
+        <span className={labelClass}>System</span>
+        <select
+          value={tuning.temperament}
+          onChange={(e) => onChange({ ...tuning, temperament: e.target.value })}
+          aria-label="Tuning system"
+          className={selectClass}
+        >
+          {TEMPERAMENTS.map(temperament => (
+            <option key={temperament.id} value={temperament.id}>{temperament.name}</option>
+          ))}
+          {tuning.scale && <option value={SCALA_TEMPERAMENT}>Scala: {tuning.scale.description || 'Imported'}</option>}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className={labelClass}>Root</span>
+        <select
+          value={tuning.rootNote}
+          onChange={(e) => onChange({ ...tuning, rootNote: parseInt(e.target.value) })}
+          disabled={isScala || tuning.temperament === 'equal'}
+          aria-label="Temperament root note"
+          className={selectClass}
+        >
+          {NOTE_NAMES.map((name, pitchClass) => (
+            <option key={name} value={pitchClass}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className={labelClass}>A4</span>
+        <input
+          type="number"
+          min="380" max="480" step="0.1"
+          value={tuning.referencePitch}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            if (!isNaN(value)) onChange({ ...tuning, referencePitch: Math.min(480, Math.max(380, value)) });
+          }}
+          disabled={usesMappingReference}
+          aria-label="Reference pitch of A4"
+          className="w-20 text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1 disabled:opacity-50"
+        />
+        <span className="text-xs text-gray-500">Hz</span>
+      </div>
+
+      <input ref={fileInput} type="file" multiple accept=".scl,.kbm" onChange={handleFileChange} className="hidden" />
+      <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+        Load .scl / .kbm
+      </button>
+      {tuning.keyboardMapping && (
+        <button onClick={() => onChange({ ...tuning, keyboardMapping: null })} className={buttonClass}>
+          Clear Mapping
+        </button>
+      )}
+
+      <p className={`text-xs ${error ? 'text-red-500' : 'text-gray-500'}`}>
+        {error ?? (usesMappingReference
+          ? `Keyboard mapping: key ${tuning.keyboardMapping!.referenceNote} = ${tuning.keyboardMapping!.referenceFrequency}Hz.`
+          : 'Keys show their deviation from equal temperament in cents.')}
+      </p>
+    </div>
+  );
+});
+
+export default TuningPanel;
@@ -1,45 +1,433 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useSynth } from '../hooks/useSynth';
+import { useMidiInput } from '../hooks/useMidiInput';
+import { useRecorder } from '../hooks/useRecorder';
+import { useKeyboardLayout } from '../hooks/useKeyboardLayout';
+import { useMetronome } from '../hooks/useMetronome';
+import { usePractice } from '../hooks/usePractice';
+import { useArpeggiator } from '../hooks/useArpeggiator';
+import { useSequencer } from '../hooks/useSequencer';
 import PianoKeys from './PianoKeys';
-import { KEY_TO_OFFSET } from '../utils/constants';
+import MidiInputSelector from './MidiInputSelector';
+import PresetSelector from './PresetSelector';
+import VoiceTypeSelector from './VoiceTypeSelector';
+import SamplePanel from './SamplePanel';
+import StringModelPanel from './StringModelPanel';
+import EnvelopePanel from './EnvelopePanel';
+import FilterPanel from './FilterPanel';
+import LfoPanel from './LfoPanel';
+import RecorderControls from './RecorderControls';
+import MidiFileControls from './MidiFileControls';
+import AudioExportControls from './AudioExportControls';
+import KeyboardLayoutPanel from './KeyboardLayoutPanel';
+import KeyboardSizeControls from './KeyboardSizeControls';
+import EffectsPanel from './EffectsPanel';
+import AnalyzerPanel from './AnalyzerPanel';
+import PolyphonyPanel from './PolyphonyPanel';
+import PedalPanel from './PedalPanel';
+import ChordDisplay from './ChordDisplay';
+import GuidePanel from './GuidePanel';
+import MetronomePanel from './MetronomePanel';
+import FallingNotes from './FallingNotes';
+import PracticePanel from './PracticePanel';
+import ArpeggiatorPanel from './ArpeggiatorPanel';
+import SequencerPanel from './SequencerPanel';
+import TuningPanel from './TuningPanel';
+import { CONTROL_KEYS, DEFAULT_KEYBOARD_SIZE, KEYBOARD_SIZES, MAX_MIDI, MIN_MIDI } from '../utils/constants';
+import { getMaxZoom } from '../utils/keyLayout';
+import { DEFAULT_PRESET_ID, getPresetById } from '../utils/presets';
+import { DEFAULT_ENVELOPE } from '../utils/envelope';
+import { DEFAULT_FILTER } from '../utils/filter';
+import { DEFAULT_LFOS } from '../utils/lfo';
+import { DEFAULT_EFFECTS, DEFAULT_TEMPO } from '../utils/effects';
+import { DEFAULT_POLYPHONY } from '../utils/voiceAllocator';
+import { PEDALS_UP } from '../utils/pedals';
+import { loadSampleSet } from '../utils/sampler';
+import { DEFAULT_STRING_MODEL } from '../utils/stringVoice';
+import { DEFAULT_KEY_SIGNATURE_ID, getKeySignatureById, getNoteNames, getPitchClassNames, KEY_SIGNATURES, NOTE_NAMINGS } from '../utils/noteNames';
+import { DEFAULT_TUNING, buildFrequencyTable, formatCents, getCentDeviations, isEqualTemperament } from '../utils/tuning';
+import { DEFAULT_METRONOME } from '../utils/metronome';
+import { createNoteTrail } from '../utils/pianoRoll';
+import { DEFAULT_PRACTICE } from '../utils/lesson';
+import { DEFAULT_ARPEGGIATOR } from '../utils/arpeggiator';
+import { DEFAULT_SEQUENCER } from '../utils/sequencer';
+import { DEFAULT_OVERLAY, getKeyHighlights, snapToOverlay } from '../utils/scales';
+import { RenderOptions } from '../utils/offlineRender';
+import { closeOpenNotes } from '../utils/performance';
+import { applyVelocityCurve, VELOCITY_CURVES } from '../utils/velocity';
+import { DecodedMidiFile, NoteNaming, PedalState, PedalType, SampleSet, VelocityCurve, VoiceType } from '../types';
+
+// Collapsible panels shown beneath the header
+type PanelId = 'envelope' | 'filter' | 'lfo' | 'samples' | 'string' | 'tuning' | 'voices' | 'pedals' | 'effects' | 'analyzer' | 'metronome' | 'arp' | 'sequencer' | 'practice' | 'guide' | 'layout';
+
+const PANELS: { id: PanelId; label: string }[] = [
+  { id: 'envelope', label: 'Envelope' },
+  { id: 'filter', label: 'Filter' },
+  { id: 'lfo', label: 'LFO' },
+  { id: 'samples', label: 'Samples' },
+  { id: 'string', label: 'String' },
+  { id: 'tuning', label: 'Tuning' },
+  { id: 'voices', label: 'Voices' },
+  { id: 'pedals', label: 'Pedals' },
+  { id: 'effects', label: 'Effects' },
+  { id: 'analyzer', label: 'Scope' },
+  { id: 'metronome', label: 'Metronome' },
+  { id: 'arp', label: 'Arp' },
+  { id: 'sequencer', label: 'Sequencer' },
+  { id: 'practice', label: 'Practice' },
+  { id: 'guide', label: 'Guides' },
+  { id: 'layout', label: 'Keys' },
+];
 
 const VirtualPiano: React.FC = () => {
   // State
-  const [octaves] = useState({ start: 2, end: 6 }); // Standard 5 Octaves
+  const [keyCount, setKeyCount] = useState(DEFAULT_KEYBOARD_SIZE);
+  const [zoom, setZoom] = useState(1);
+  const [scroll, setScroll] = useState(0.5);
   const [octaveOffset, setOctaveOffset] = useState(0);
+  const [transpose, setTranspose] = useState(0); // Semitones, independent of the octave shift
+  const [keySignatureId, setKeySignatureId] = useState(DEFAULT_KEY_SIGNATURE_ID);
+  const [noteNaming, setNoteNaming] = useState<NoteNaming>('letter');
+  const [overlay, setOverlay] = useState(DEFAULT_OVERLAY);
+  const [showFallingNotes, setShowFallingNotes] = useState(false);
+  const [practiceOptions, setPracticeOptions] = useState(DEFAULT_PRACTICE);
   const [volume, setVolume] = useState(7); // 0-10
+  const [voiceType, setVoiceTypeState] = useState<VoiceType>('synth');
+  const [presetId, setPresetId] = useState(DEFAULT_PRESET_ID);
+  const [sampleSet, setSampleSetState] = useState<SampleSet | null>(null);
+  const [stringModel, setStringModelSettings] = useState(DEFAULT_STRING_MODEL);
+  const [tuning, setTuningSettings] = useState(DEFAULT_TUNING);
+  const [velocityCurve, setVelocityCurve] = useState<VelocityCurve>('linear');
+  const [envelope, setEnvelopeSettings] = useState(DEFAULT_ENVELOPE);
+  const [filter, setFilterSettings] = useState(DEFAULT_FILTER);
+  const [lfos, setLfoSettings] = useState(DEFAULT_LFOS);
+  const [polyphony, setPolyphonySettings] = useState(DEFAULT_POLYPHONY);
+  const [effects, setEffectSettings] = useState(DEFAULT_EFFECTS);
+  const [tempo, setTempo] = useState(DEFAULT_TEMPO);
+  const [metronomeSettings, setMetronomeSettings] = useState(DEFAULT_METRONOME);
+  const [arpSettings, setArpSettings] = useState(DEFAULT_ARPEGGIATOR);
+  const [sequencerSettings, setSequencerSettings] = useState(DEFAULT_SEQUENCER);
+  const [activePanel, setActivePanel] = useState<PanelId | null>(null);
   const [activeKeys, setActiveKeys] = useState<Set<number>>(new Set());
-  const [isSustainActive, setIsSustainActive] = useState(false);
+  const [pedals, setPedals] = useState<PedalState>(PEDALS_UP);
   const [isAudioContextReady, setIsAudioContextReady] = useState(false);
+  const [isLearningKeys, setIsLearningKeys] = useState(false);
+  const [learnKey, setLearnKey] = useState<number | null>(null); // Piano key waiting for a computer key binding
+
+  // Visible keyboard range; zoom is clamped so switching to a smaller size can't over-zoom
+  const keyRange = useMemo(() => {
+    return (KEYBOARD_SIZES.find(size => size.keys === keyCount) || KEYBOARD_SIZES[0]).range;
+  }, [keyCount]);
+  const maxZoom = useMemo(() => getMaxZoom(keyRange), [keyRange]);
+  const visibleZoom = Math.min(zoom, maxZoom);
+
+  // Key labels follow the selected key signature and naming system
+  const noteNames = useMemo(() => {
+    return getNoteNames(getKeySignatureById(keySignatureId), noteNaming);
+  }, [keySignatureId, noteNaming]);
+  const pitchClassNames = useMemo(() => {
+    return getPitchClassNames(getKeySignatureById(keySignatureId), noteNaming);
+  }, [keySignatureId, noteNaming]);
+
+  // Falling-notes lane: follows the keyboard SVG and reads live notes outside React state
+  const keysRef = useRef<SVGSVGElement>(null);
+  const liveNotes = useMemo(() => createNoteTrail(), []);
+
+  // Scale or chord guide tinted over the keys
+  const highlights = useMemo(() => getKeyHighlights(overlay), [overlay]);
+
+  // Computer keyboard layout
+  const { layout, layouts, offsetLabels, selectLayout, bindKey, clearOffset } = useKeyboardLayout();
 
   // Audio Hook
-  const { playNote, stopNote, enforceSilence, audioContext, setMasterVolume, releaseGlobalSustain } = useSynth();
+  const { playNote, stopNote, playTimedNote, enforceSilence, audioContext, analyser, setMasterVolume, setVoiceType, setPreset, setSampleSet, setStringModel, setTuning, setEnvelope, setFilter, setLfos, setEffects, setPolyphony, setPedal, voiceCount, sustainedNotes } = useSynth();
 
   // Update master volume when volume state changes
   useEffect(() => {
     setMasterVolume(volume);
   }, [volume, setMasterVolume]);
 
+  // Switch the voice type and preset for new notes
+  useEffect(() => {
+    setVoiceType(voiceType);
+  }, [voiceType, setVoiceType]);
+
+  useEffect(() => {
+    setPreset(presetId);
+  }, [presetId, setPreset]);
+
+  useEffect(() => {
+    setSampleSet(sampleSet);
+  }, [sampleSet, setSampleSet]);
+
+  useEffect(() => {
+    setStringModel(stringModel);
+  }, [stringModel, setStringModel]);
+
+  useEffect(() => {
+    setTuning(tuning);
+  }, [tuning, setTuning]);
+
+  // Keys are labelled with their cent deviation whenever the tuning isn't equal temperament
+  const centLabels = useMemo(() => {
+    if (isEqualTemperament(tuning)) return null;
+    return getCentDeviations(tuning, buildFrequencyTable(tuning)).map(cents => cents === null ? null : formatCents(cents));
+  }, [tuning]);
+
+  // Decode a sample pack on the live context and switch to it
+  const handleLoadSamples = useCallback(async (files: File[]) => {
+    const ctx = audioContext.current;
+    if (!ctx) throw new Error('Audio is not available');
+    const loaded = await loadSampleSet(files, data => ctx.decodeAudioData(data));
+    setSampleSetState(loaded);
+    setVoiceTypeState('sampler');
+  }, [audioContext]);
+
+  // Current sound settings, for rendering takes offline
+  const renderOptions = useMemo((): RenderOptions => ({
+    voiceType,
+    preset: getPresetById(presetId),
+    sampleSet,
+    stringModel,
+    tuning,
+    envelope,
+    filter,
+    lfos,
+    volume,
+    polyphony,
+    effects,
+    tempo,
+  }), [voiceType, presetId, sampleSet, stringModel, tuning, envelope, filter, lfos, volume, polyphony, effects, tempo]);
+
+  // Push envelope edits to the synth as they happen
+  useEffect(() => {
+    setEnvelope(envelope);
+  }, [envelope, setEnvelope]);
+
+  useEffect(() => {
+    setFilter(filter);
+  }, [filter, setFilter]);
+
+  // LFO rates can follow the effects tempo
+  useEffect(() => {
+    setLfos(lfos, tempo);
+  }, [lfos, tempo, setLfos]);
+
+  // Voice limit and stealing strategy
+  useEffect(() => {
+    setPolyphony(polyphony);
+  }, [polyphony, setPolyphony]);
+
+  // Effects rack order, bypass and parameters
+  useEffect(() => {
+    setEffects(effects, tempo);
+  }, [effects, tempo, setEffects]);
+
   // Helper to calculate MIDI from key press
   const getMidiFromKey = useCallback((code: string, currentOctaveOffset: number) => {
     const baseMidi = 60; // Middle C (C4)
-    const offset = KEY_TO_OFFSET[code];
+    const offset = layout.bindings[code];
     
     if (typeof offset === 'number') {
-      return baseMidi + offset + currentOctaveOffset;
+      const midi = baseMidi + offset + currentOctaveOffset + transpose;
+      return overlay.lockToScale && highlights ? snapToOverlay(midi, highlights) : midi;
     }
     return null;
+  }, [layout, transpose, overlay.lockToScale, highlights]);
+
+  // Learn mode: the next computer key pressed is bound to the selected piano key
+  const handleLearnKeyDown = useCallback((e: KeyboardEvent) => {
+    e.preventDefault();
+    if (e.code === 'Escape') {
+      setIsLearningKeys(false);
+      setLearnKey(null);
+      return;
+    }
+    if (learnKey === null || CONTROL_KEYS[e.code]) return;
+
+    const offset = learnKey - 60 - octaveOffset - transpose;
+    if (e.code === 'Backspace') {
+      clearOffset(offset);
+    } else {
+      bindKey(e.code, offset);
+    }
+    setLearnKey(null);
+  }, [learnKey, octaveOffset, transpose, bindKey, clearOffset]);
+
+  const toggleLearning = useCallback(() => {
+    setIsLearningKeys(prev => !prev);
+    setLearnKey(null);
   }, []);
 
-  // Keyboard Event Handlers
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    // Resume audio context on first interaction
+  // Closing the Keys panel ends learn mode so the keyboard doesn't stay silent
+  useEffect(() => {
+    if (activePanel !== 'layout') {
+      setIsLearningKeys(false);
+      setLearnKey(null);
+    }
+  }, [activePanel]);
+
+  // Resume audio context on first interaction
+  const ensureAudioRunning = useCallback(() => {
     if (!isAudioContextReady && audioContext.current?.state === 'suspended') {
       audioContext.current.resume().then(() => setIsAudioContextReady(true));
     }
+  }, [audioContext, isAudioContextReady]);
+
+  // Everything the chord display should hear: keys down plus notes ringing under a pedal
+  const heldNotes = useMemo(() => {
+    return Array.from(new Set([...activeKeys, ...sustainedNotes]));
+  }, [activeKeys, sustainedNotes]);
+
+  // Performance recorder; playback drives the synth directly and only animates the keys
+  const recorder = useRecorder(audioContext, {
+    playNote: (midi, velocity, when) => playNote(midi, velocity, when, 'playback'),
+    stopNote: (midi, when) => stopNote(midi, when, 'playback'),
+    setPedal,
+    onKeyChange: (midi, isDown) => setActiveKeys(prev => {
+      const next = new Set(prev);
+      if (isDown) next.add(midi); else next.delete(midi);
+      return next;
+    }),
+  });
+  const { recordEvent, addTake, record, stop: stopRecorder } = recorder;
+
+  // Practice drills the selected take
+  const practice = usePractice(recorder.selectedTake, practiceOptions);
+  const { handleNoteOn: handlePracticeNote } = practice;
+
+  // Metronome shares the effects tempo; its count-in can start a recording on the downbeat
+  const metronome = useMetronome(audioContext, tempo, metronomeSettings);
+  const { countIn, isCountingIn, stop: stopMetronome } = metronome;
+
+  // Arpeggiator and step sequencer play the synth ahead of time at the shared tempo
+  const arpeggiator = useArpeggiator(audioContext, tempo, arpSettings, { playNote: playTimedNote });
+  const { noteOn: arpNoteOn, noteOff: arpNoteOff, clear: clearArp } = arpeggiator;
+  const sequencer = useSequencer(audioContext, tempo, sequencerSettings, { playNote: playTimedNote });
+  const { recordNoteOn: recordStepNote, recordNoteOff: releaseStepNote, stop: stopSequencer } = sequencer;
+
+  const handleRecord = useCallback(() => {
+    if (metronomeSettings.countInBars > 0) {
+      countIn(record);
+    } else {
+      record();
+    }
+  }, [metronomeSettings.countInBars, countIn, record]);
+
+  const handleStop = useCallback(() => {
+    if (isCountingIn) {
+      stopMetronome(); // Cancels the pending recording too
+    } else {
+      stopRecorder();
+    }
+  }, [isCountingIn, stopMetronome, stopRecorder]);
+
+  // Imported .mid files become takes so they play back like recordings
+  const handleMidiFileImport = useCallback((name: string, file: DecodedMidiFile) => {
+    addTake(name, closeOpenNotes(file.events, file.duration));
+  }, [addTake]);
+
+  // Keys the player is holding, updated with each note so a note-off that arrives
+  // before the next render (MIDI, a fast glissando) still finds its note-on
+  const heldKeys = useRef<Set<number>>(new Set());
+  // Held keys sounding on the synth itself rather than through the arpeggiator
+  const directNotes = useRef<Set<number>>(new Set());
+  // Note each computer key started, so key-up releases it even if the transpose or guide has
+  // changed since
+  const computerKeyNotes = useRef<Map<string, number>>(new Map());
+  // Computer keys and the pointer holding each note. Lock-to-scale can snap two keys to one
+  // note, or a key can be down while the same note is clicked; it sounds until all let go.
+  const noteHolds = useRef<Map<number, number>>(new Map());
+
+  // Central note handlers shared by every input source (QWERTY, pointer, MIDI).
+  // Velocity is 0-1 and goes through the selected response curve.
+  const handleNoteOn = useCallback((midi: number, velocity: number = 1) => {
+    ensureAudioRunning();
+    const curvedVelocity = applyVelocityCurve(velocity, velocityCurve);
+    heldKeys.current.add(midi);
+    setActiveKeys(prev => new Set(prev).add(midi));
+    if (arpSettings.enabled) {
+      arpNoteOn(midi, curvedVelocity);
+    } else {
+      playNote(midi, curvedVelocity);
+      directNotes.current.add(midi);
+    }
+    liveNotes.noteOn(midi, curvedVelocity, performance.now() / 1000);
+    recordEvent({ type: 'noteOn', midi, velocity: curvedVelocity });
+    recordStepNote(midi, curvedVelocity);
+    handlePracticeNote(midi);
+  }, [ensureAudioRunning, playNote, velocityCurve, arpSettings.enabled, arpNoteOn, liveNotes, recordEvent, recordStepNote, handlePracticeNote]);
+
+  const handleNoteOff = useCallback((midi: number) => {
+    if (!heldKeys.current.delete(midi)) return; // e.g. pointer leaving a key that isn't down
+    setActiveKeys(prev => {
+        const next = new Set(prev);
+        next.delete(midi);
+        return next;
+    });
+    // The synth decides from its pedal state whether the note rings on.
+    // Checked per note, as the arpeggiator may have been switched while the key was down.
+    if (directNotes.current.delete(midi)) stopNote(midi);
+    arpNoteOff(midi);
+    liveNotes.noteOff(midi, performance.now() / 1000);
+    recordEvent({ type: 'noteOff', midi });
+    releaseStepNote(midi);
+  }, [stopNote, arpNoteOff, liveNotes, recordEvent, releaseStepNote]);
+
+  const holdNote = useCallback((midi: number, velocity?: number) => {
+    const count = noteHolds.current.get(midi) ?? 0;
+    noteHolds.current.set(midi, count + 1);
+    if (count === 0 && !heldKeys.current.has(midi)) {
+      handleNoteOn(midi, velocity);
+    }
+  }, [handleNoteOn]);
+
+  const releaseHold = useCallback((midi: number) => {
+    const count = (noteHolds.current.get(midi) ?? 1) - 1;
+    if (count > 0) {
+      noteHolds.current.set(midi, count); // Something else is still holding it
+      return;
+    }
+    noteHolds.current.delete(midi);
+    handleNoteOff(midi);
+  }, [handleNoteOff]);
+
+  // Pedal depth 0-1 from any source (Caps Lock, the UI, MIDI CC64/66/67)
+  const handlePedalChange = useCallback((pedal: PedalType, value: number) => {
+    setPedals(prev => ({ ...prev, [pedal]: value }));
+    setPedal(pedal, value);
+    recordEvent({ type: 'pedal', pedal, value });
+  }, [setPedal, recordEvent]);
+
+  const handleSilence = useCallback(() => {
+    clearArp();
+    stopSequencer();
+    enforceSilence();
+    heldKeys.current.forEach((midi) => {
+      liveNotes.noteOff(midi, performance.now() / 1000);
+      recordEvent({ type: 'noteOff', midi });
+    });
+    heldKeys.current.clear();
+    directNotes.current.clear();
+    computerKeyNotes.current.clear();
+    noteHolds.current.clear();
+    (Object.keys(pedals) as PedalType[]).forEach((pedal) => {
+      if (pedals[pedal] > 0) recordEvent({ type: 'pedal', pedal, value: 0 });
+    });
+    setActiveKeys(new Set());
+    setPedals(PEDALS_UP); // Silencing also lifts every pedal
+  }, [clearArp, stopSequencer, enforceSilence, pedals, liveNotes, recordEvent]);
+
+  // Keyboard Event Handlers
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (isLearningKeys) {
+      handleLearnKeyDown(e);
+      return;
+    }
+    ensureAudioRunning();
 
     if (e.repeat) return;
-    const action = KEY_TO_OFFSET[e.code];
+    const action = CONTROL_KEYS[e.code];
 
     if (action === 'OCTAVE_DOWN') {
       e.preventDefault();
@@ -53,72 +441,49 @@ const VirtualPiano: React.FC = () => {
     }
     if (action === 'SUSTAIN_TOGGLE') {
       e.preventDefault(); // Prevent page scroll on space for example if it were bound
-      if (!isSustainActive) { // Only activate once
-          setIsSustainActive(true);
+      if (pedals.sustain === 0) { // Only activate once
+          handlePedalChange('sustain', 1);
       }
       return;
     }
     if (action === 'SILENCE') {
       e.preventDefault();
-      enforceSilence();
-      setActiveKeys(new Set());
-      setIsSustainActive(false); // Also reset sustain
+      handleSilence();
       return;
     }
 
+    if (computerKeyNotes.current.has(e.code)) return;
     const midi = getMidiFromKey(e.code, octaveOffset);
-    if (midi && midi >= 24 && midi <= 108) {
-      if (!activeKeys.has(midi)) {
-        setActiveKeys(prev => {
-           const next = new Set(prev);
-           next.add(midi);
-           return next;
-        });
-        playNote(midi, volume / 10);
-      }
+    if (midi && midi >= MIN_MIDI && midi <= MAX_MIDI) {
+      computerKeyNotes.current.set(e.code, midi);
+      holdNote(midi);
     }
-  }, [octaveOffset, activeKeys, playNote, volume, isSustainActive, enforceSilence, getMidiFromKey, audioContext, isAudioContextReady]);
+  }, [octaveOffset, pedals, isLearningKeys, getMidiFromKey, ensureAudioRunning, holdNote, handlePedalChange, handleSilence, handleLearnKeyDown]);
 
   const handleKeyUp = useCallback((e: KeyboardEvent) => {
-    const action = KEY_TO_OFFSET[e.code];
+    const action = CONTROL_KEYS[e.code];
     
     if (action === 'SUSTAIN_TOGGLE') {
-      setIsSustainActive(false);
-      releaseGlobalSustain(); // Release all currently sustained notes
+      handlePedalChange('sustain', 0);
       return;
     }
 
-    const midi = getMidiFromKey(e.code, octaveOffset);
-    if (midi && activeKeys.has(midi)) {
-      setActiveKeys(prev => {
-        const next = new Set(prev);
-        next.delete(midi);
-        return next;
-      });
-      // Pass the current sustain state to stopNote
-      stopNote(midi, isSustainActive);
-    }
-  }, [octaveOffset, activeKeys, stopNote, isSustainActive, getMidiFromKey, releaseGlobalSustain]);
+    const midi = computerKeyNotes.current.get(e.code);
+    if (midi === undefined) return;
+    computerKeyNotes.current.delete(e.code);
+    releaseHold(midi);
+  }, [releaseHold, handlePedalChange]);
 
-  // Mouse/Touch interaction for keys directly
-  const handleMousePlay = useCallback((midi: number, vol?: number) => {
-    if (!isAudioContextReady && audioContext.current?.state === 'suspended') {
-      audioContext.current.resume().then(() => setIsAudioContextReady(true));
-    }
-    setActiveKeys(prev => new Set(prev).add(midi));
-    playNote(midi, vol);
-  }, [playNote, audioContext, isAudioContextReady]);
+  // Hardware MIDI input
+  const handleMidiNoteOn = useCallback((midi: number, velocity: number) => {
+    handleNoteOn(midi, velocity / 127);
+  }, [handleNoteOn]);
 
-  const handleMouseStop = useCallback((midi: number) => {
-    setActiveKeys(prev => {
-        const next = new Set(prev);
-        next.delete(midi);
-        return next;
-    });
-    // For mouse/touch, assume sustain is off unless CapsLock is held (which isn't captured by mouse events)
-    // or if we were to implement a dedicated UI sustain button.
-    stopNote(midi, false); 
-  }, [stopNote]);
+  const midiInput = useMidiInput({
+    onNoteOn: handleMidiNoteOn,
+    onNoteOff: handleNoteOff,
+    onPedalChange: handlePedalChange,
+  });
 
 
   useEffect(() => {
@@ -170,11 +535,41 @@ const VirtualPiano: React.FC = () => {
                     </div>
                     <div>
                         <h1 className="text-2xl font-semibold text-gray-900 tracking-tight leading-none">Piano Pro</h1>
-                        <p className="text-sm text-gray-500 font-medium mt-1">Virtual Synthesizer</p>
+                        <p className="text-sm text-gray-500 font-medium mt-1">
+                            Virtual Synthesizer
+                            <span
+                                className={`ml-2 text-xs font-semibold tabular-nums ${voiceCount >= polyphony.maxVoices ? 'text-amber-500' : 'text-gray-400'}`}
+                                title="Sounding voices / polyphony limit"
+                            >
+                                {voiceCount}/{polyphony.maxVoices} voices
+                            </span>
+                        </p>
                     </div>
                 </div>
 
+                {/* Recorder */}
+                <div className="flex items-center gap-4 bg-gray-50/80 px-4 py-2 mb-4 md:mb-0 rounded-2xl border border-gray-100 shadow-sm">
+                    <RecorderControls {...recorder} record={handleRecord} stop={handleStop} isCountingIn={isCountingIn} />
+                    <div className="w-px h-8 bg-gray-200 hidden sm:block"></div>
+                    <MidiFileControls
+                        selectedTake={recorder.selectedTake}
+                        onImport={handleMidiFileImport}
+                        disabled={recorder.status !== 'idle'}
+                    />
+                    <AudioExportControls
+                        selectedTake={recorder.selectedTake}
+                        renderOptions={renderOptions}
+                        disabled={recorder.status !== 'idle'}
+                    />
+                </div>
+
                 <div className="flex items-center gap-4 bg-gray-50/80 px-4 py-2 rounded-2xl border border-gray-100 shadow-sm flex-wrap justify-center">
+                    {/* Sound Preset */}
+                    <VoiceTypeSelector voiceType={voiceType} onChange={setVoiceTypeState} isSamplerReady={sampleSet !== null} />
+                    {voiceType === 'synth' && <PresetSelector presetId={presetId} onChange={setPresetId} />}
+
+                    <div className="w-px h-8 bg-gray-200 hidden sm:block"></div>
+
                     {/* Volume */}
                     <div className="flex items-center gap-2">
                         <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Vol</span>
@@ -190,6 +585,23 @@ const VirtualPiano: React.FC = () => {
 
                     <div className="w-px h-8 bg-gray-200 hidden sm:block"></div>
 
+                    {/* Velocity Curve */}
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Touch</span>
+                        <select
+                            value={velocityCurve}
+                            onChange={(e) => setVelocityCurve(e.target.value as VelocityCurve)}
+                            aria-label="Velocity curve"
+                            className="text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+                        >
+                            {VELOCITY_CURVES.map(curve => (
+                                <option key={curve.id} value={curve.id}>{curve.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="w-px h-8 bg-gray-200 hidden sm:block"></div>
+
                     {/* Transpose */}
                     <div className="flex items-center gap-2">
                          <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Octave</span>
@@ -208,24 +620,74 @@ const VirtualPiano: React.FC = () => {
                          </div>
                     </div>
 
+                    {/* Semitone Transpose */}
+                    <div className="flex items-center gap-2">
+                         <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Semi</span>
+                         <div className="flex items-center bg-white rounded-lg shadow-sm border border-gray-200">
+                             <button 
+                                onClick={() => setTranspose(prev => Math.max(-12, prev - 1))}
+                                className="px-2 py-1 text-gray-600 hover:text-blue-600 font-medium transition active:scale-95"
+                                aria-label="Transpose down a semitone"
+                             >-</button>
+                             <span className="w-6 text-center text-sm font-semibold text-gray-800">{transpose > 0 ? `+${transpose}` : transpose}</span>
+                             <button 
+                                onClick={() => setTranspose(prev => Math.min(12, prev + 1))}
+                                className="px-2 py-1 text-gray-600 hover:text-blue-600 font-medium transition active:scale-95"
+                                aria-label="Transpose up a semitone"
+                             >+</button>
+                         </div>
+                    </div>
+
+                    <div className="w-px h-8 bg-gray-200 hidden sm:block"></div>
+
+                    {/* Key Signature & Note Naming */}
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Key</span>
+                        <select
+                            value={keySignatureId}
+                            onChange={(e) => setKeySignatureId(e.target.value)}
+                            aria-label="Key signature for note names"
+                            className="text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+                        >
+                            {KEY_SIGNATURES.map(key => (
+                                <option key={key.id} value={key.id}>{key.name}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={noteNaming}
+                            onChange={(e) => setNoteNaming(e.target.value as NoteNaming)}
+                            aria-label="Note naming system"
+                            className="text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+                        >
+                            {NOTE_NAMINGS.map(naming => (
+                                <option key={naming.id} value={naming.id}>{naming.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="w-px h-8 bg-gray-200 hidden sm:block"></div>
+
+                    {/* MIDI Input */}
+                    <MidiInputSelector {...midiInput} />
+
                     <div className="w-px h-8 bg-gray-200 hidden sm:block"></div>
 
                     {/* Sustain Toggle */}
                     <div className="flex items-center gap-2">
                          <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Sustain</span>
-                         <div className={`w-10 h-6 flex items-center rounded-full p-1 transition-colors duration-300 cursor-pointer ${isSustainActive ? 'bg-blue-500' : 'bg-gray-300'}`}
-                              onClick={() => { setIsSustainActive(prev => !prev); if (isSustainActive) releaseGlobalSustain(); }}
+                         <div className={`w-10 h-6 flex items-center rounded-full p-1 transition-colors duration-300 cursor-pointer ${pedals.sustain > 0 ? 'bg-blue-500' : 'bg-gray-300'}`}
+                              onClick={() => handlePedalChange('sustain', pedals.sustain > 0 ? 0 : 1)}
                               role="switch"
-                              aria-checked={isSustainActive}
+                              aria-checked={pedals.sustain > 0}
                               aria-label="Toggle sustain pedal"
                          >
-                            <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform duration-300 ${isSustainActive ? 'translate-x-4' : ''}`}></div>
+                            <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform duration-300 ${pedals.sustain > 0 ? 'translate-x-4' : ''}`}></div>
                          </div>
                     </div>
                     
                     {/* Reset / Panic */}
                     <button 
-                        onClick={() => { enforceSilence(); setActiveKeys(new Set()); setIsSustainActive(false); }}
+                        onClick={handleSilence}
                         className="ml-2 p-2 text-gray-400 hover:text-red-500 transition rounded-full hover:bg-red-50"
                         title="Panic / Silence All"
                         aria-label="Silence all notes"
@@ -238,26 +700,209 @@ const VirtualPiano: React.FC = () => {
                 </div>
             </div>
 
+            {/* Panels */}
+            <div className="px-8 py-3 border-b border-gray-100 bg-white/30">
+                <div className="flex items-center gap-2 flex-wrap">
+                    {PANELS.map(panel => (
+                        <button
+                            key={panel.id}
+                            onClick={() => setActivePanel(prev => prev === panel.id ? null : panel.id)}
+                            className={`px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-full border transition ${activePanel === panel.id ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-500 border-gray-200 hover:text-blue-600'}`}
+                            aria-expanded={activePanel === panel.id}
+                        >
+                            {panel.label}
+                        </button>
+                    ))}
+                </div>
+                {activePanel === 'envelope' && (
+                    <div className="mt-4">
+                        <EnvelopePanel envelope={envelope} onChange={setEnvelopeSettings} />
+                    </div>
+                )}
+                {activePanel === 'filter' && (
+                    <div className="mt-4">
+                        <FilterPanel filter={filter} onChange={setFilterSettings} />
+                    </div>
+                )}
+                {activePanel === 'lfo' && (
+                    <div className="mt-4">
+                        <LfoPanel lfos={lfos} onChange={setLfoSettings} tempo={tempo} />
+                    </div>
+                )}
+                {activePanel === 'samples' && (
+                    <div className="mt-4">
+                        <SamplePanel sampleSet={sampleSet} onLoad={handleLoadSamples} />
+                    </div>
+                )}
+                {activePanel === 'string' && (
+                    <div className="mt-4">
+                        <StringModelPanel settings={stringModel} onChange={setStringModelSettings} />
+                    </div>
+                )}
+                {activePanel === 'tuning' && (
+                    <div className="mt-4">
+                        <TuningPanel tuning={tuning} onChange={setTuningSettings} />
+                    </div>
+                )}
+                {activePanel === 'voices' && (
+                    <div className="mt-4">
+                        <PolyphonyPanel polyphony={polyphony} onChange={setPolyphonySettings} />
+                    </div>
+                )}
+                {activePanel === 'pedals' && (
+                    <div className="mt-4">
+                        <PedalPanel pedals={pedals} onChange={handlePedalChange} />
+                    </div>
+                )}
+                {activePanel === 'effects' && (
+                    <div className="mt-4">
+                        <EffectsPanel effects={effects} onChange={setEffectSettings} tempo={tempo} onTempoChange={setTempo} />
+                    </div>
+                )}
+                {activePanel === 'analyzer' && (
+                    <div className="mt-4">
+                        <AnalyzerPanel analyser={analyser} />
+                    </div>
+                )}
+                {activePanel === 'metronome' && (
+                    <div className="mt-4">
+                        <MetronomePanel
+                            settings={metronomeSettings}
+                            onChange={setMetronomeSettings}
+                            tempo={tempo}
+                            onTempoChange={setTempo}
+                            isRunning={metronome.isRunning}
+                            beat={metronome.beat}
+                            onToggle={metronome.toggle}
+                        />
+                    </div>
+                )}
+                {activePanel === 'arp' && (
+                    <div className="mt-4">
+                        <ArpeggiatorPanel settings={arpSettings} onChange={setArpSettings} />
+                    </div>
+                )}
+                {activePanel === 'sequencer' && (
+                    <div className="mt-4">
+                        <SequencerPanel
+                            settings={sequencerSettings}
+                            onChange={setSequencerSettings}
+                            steps={sequencer.steps}
+                            noteNames={noteNames}
+                            isPlaying={sequencer.isPlaying}
+                            currentStep={sequencer.currentStep}
+                            isRecording={sequencer.isRecording}
+                            recordStep={sequencer.recordStep}
+                            onToggle={sequencer.toggle}
+                            onToggleRecording={sequencer.toggleRecording}
+                            onRest={sequencer.rest}
+                            onClear={sequencer.clear}
+                            onToggleNote={sequencer.toggleNote}
+                            onSelectStep={sequencer.setRecordStep}
+                        />
+                    </div>
+                )}
+                {activePanel === 'practice' && (
+                    <div className="mt-4">
+                        <PracticePanel
+                            take={recorder.selectedTake}
+                            options={practiceOptions}
+                            onChange={setPracticeOptions}
+                            noteNames={noteNames}
+                            status={practice.status}
+                            progress={practice.progress}
+                            summary={practice.summary}
+                            lastPassSummary={practice.lastPassSummary}
+                            pass={practice.pass}
+                            onStart={practice.start}
+                            onStop={practice.stop}
+                        />
+                    </div>
+                )}
+                {activePanel === 'guide' && (
+                    <div className="mt-4">
+                        <GuidePanel overlay={overlay} onChange={setOverlay} pitchClassNames={pitchClassNames} />
+                    </div>
+                )}
+                {activePanel === 'layout' && (
+                    <div className="mt-4">
+                        <KeyboardLayoutPanel
+                            layouts={layouts}
+                            layoutId={layout.id}
+                            selectLayout={selectLayout}
+                            isLearning={isLearningKeys}
+                            onToggleLearning={toggleLearning}
+                            learnKey={learnKey}
+                            noteNames={noteNames}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {/* Harmony */}
+            <div className="px-8 py-3 border-b border-gray-100 bg-white/30">
+                <ChordDisplay notes={heldNotes} noteNames={noteNames} pitchClassNames={pitchClassNames} />
+            </div>
+
+            {/* Falling Notes */}
+            {showFallingNotes && (
+                <div className="px-1 pt-1 md:px-8 md:pt-8 bg-gray-50">
+                    <FallingNotes
+                        range={keyRange}
+                        keysRef={keysRef}
+                        audioContext={audioContext}
+                        liveNotes={liveNotes}
+                        selectedTake={recorder.selectedTake}
+                        getPlaybackPosition={recorder.getPlaybackPosition}
+                    />
+                </div>
+            )}
+
             {/* Piano Container */}
-            <div className="p-1 md:p-8 bg-gradient-to-b from-gray-50 to-gray-100 flex-grow min-h-[25vh] max-h-[50vh]">
+            <div className={`p-1 md:p-8 bg-gradient-to-b from-gray-50 to-gray-100 flex-grow min-h-[25vh] max-h-[50vh] ${showFallingNotes ? 'pt-0 md:pt-0' : ''}`}>
                 <div className="relative rounded-xl overflow-hidden shadow-2xl ring-1 ring-black/5 bg-[#050505] h-full">
                     {/* Top Fallboard Detail */}
                     <div className="h-[1.5vh] bg-gradient-to-b from-[#1a1a1a] to-black border-b border-gray-800"></div>
                     
                     {/* Keys */}
                     <PianoKeys
-                        octaves={octaves}
-                        playNote={handleMousePlay}
-                        stopNote={handleMouseStop}
+                        range={keyRange}
+                        zoom={visibleZoom}
+                        scroll={scroll}
+                        onScrollChange={setScroll}
+                        playNote={holdNote}
+                        stopNote={releaseHold}
                         activeKeys={activeKeys}
-                        volume={volume}
                         octaveOffset={octaveOffset}
+                        transpose={transpose}
+                        noteNames={noteNames}
+                        offsetLabels={offsetLabels}
+                        onKeySelect={isLearningKeys ? setLearnKey : undefined}
+                        selectedKey={learnKey}
+                        centLabels={centLabels}
+                        highlights={highlights}
+                        expectedKeys={practice.expectedKeys}
+                        keysRef={keysRef}
                     />
                 </div>
                 
-                <div className="mt-6 text-center">
+                <div className="mt-4">
+                    <KeyboardSizeControls
+                        keyCount={keyCount}
+                        onKeyCountChange={setKeyCount}
+                        zoom={visibleZoom}
+                        maxZoom={maxZoom}
+                        onZoomChange={setZoom}
+                        scroll={scroll}
+                        onScrollChange={setScroll}
+                        showFallingNotes={showFallingNotes}
+                        onShowFallingNotesChange={setShowFallingNotes}
+                    />
+                </div>
+
+                <div className="mt-4 text-center">
                     <p className="text-[10px] uppercase tracking-[0.2em] text-gray-400 font-medium">
-                        Mapped to QWERTY Keyboard • Caps Lock for Sustain • Space to Stop
+                        Mapped to {layout.name} Keyboard • MIDI Controllers Supported • Caps Lock for Sustain • Space to Stop
                     </p>
                 </div>
             </div>
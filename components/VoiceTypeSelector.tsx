@@ -0,0 +1,31 @@
+import React from 'react';
+import { VoiceType } from '../types';
+import { VOICE_TYPES } from '../utils/voice';
+
+interface VoiceTypeSelectorProps {
+  voiceType: VoiceType;
+  onChange: (voiceType: VoiceType) => void;
+  isSamplerReady: boolean; // Sampler needs a loaded sample set
+}
+
+const VoiceTypeSelector: React.FC<VoiceTypeSelectorProps> = React.memo(({ voiceType, onChange, isSamplerReady }) => {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Voice</span>
+      <select
+        value={voiceType}
+        onChange={(e) => onChange(e.target.value as VoiceType)}
+        aria-label="Voice type"
+        className="text-sm font-medium text-gray-700 bg-white rounded-lg shadow-sm border border-gray-200 px-2 py-1"
+      >
+        {VOICE_TYPES.map(type => (
+          <option key={type.id} value={type.id} disabled={type.id === 'sampler' && !isSamplerReady}>
+            {type.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+});
+
+export default VoiceTypeSelector;
@@ -1,5 +1,6 @@
-import React, { useCallback } from 'react';
-import { NOTE_NAMES, ORIGINAL_WHITE_KEY_HEIGHT } from '../utils/constants';
+import React from 'react';
+import { KeyHighlight } from '../types';
+import { ORIGINAL_WHITE_KEY_HEIGHT } from '../utils/constants';
 
 interface WhiteKeyProps {
   midi: number;
@@ -8,30 +9,17 @@ interface WhiteKeyProps {
   height: number; // This is now a relative height from SVG_VIEWBOX_HEIGHT_UNIT
   isActive: boolean;
   keyLabel: string | null;
-  octave: number;
-  volume: number;
-  playNote: (midi: number, vol?: number) => void;
-  stopNote: (midi: number) => void;
+  isSelected?: boolean; // Chosen in layout learn mode
+  centLabel?: string | null; // Deviation from equal temperament, shown for other tunings
+  highlight?: KeyHighlight | null; // Member of the scale or chord guide
+  isExpected?: boolean; // Next key to play in practice mode
+  noteName: string; // Spelled for the current key, e.g. "B♭3" or "H3"
   viewboxHeight: number; // The total height of the SVG viewbox
 }
 
 const WhiteKey: React.FC<WhiteKeyProps> = React.memo(({
-  midi, x, w, height, isActive, keyLabel, octave, volume, playNote, stopNote, viewboxHeight
+  midi, x, w, height, isActive, keyLabel, isSelected, centLabel, highlight, isExpected, noteName, viewboxHeight
 }) => {
-  const getNoteName = useCallback((m: number) => {
-    return NOTE_NAMES[m % 12];
-  }, []);
-
-  const handleDown = (e: React.PointerEvent) => {
-    e.preventDefault();
-    playNote(midi, volume / 10);
-  };
-
-  const handleUp = (e: React.PointerEvent) => {
-    e.preventDefault();
-    stopNote(midi);
-  };
-
   // Calculate scaled font sizes and Y positions based on the current key height relative to original fixed height
   const scaleFactor = height / ORIGINAL_WHITE_KEY_HEIGHT;
 
@@ -41,14 +29,13 @@ const WhiteKey: React.FC<WhiteKeyProps> = React.memo(({
   const noteNameFontSize = 10 * scaleFactor;
   const noteNameY = height - (8 * scaleFactor);
 
+  const centLabelFontSize = 9 * scaleFactor;
+  const centLabelY = height - (46 * scaleFactor);
+
 
   return (
-    <g
-      onPointerDown={handleDown}
-      onPointerUp={handleUp}
-      onPointerLeave={handleUp} // End note on mouse out
-      style={{ touchAction: 'none' }}
-    >
+    // Pointer input is tracked at the keyboard level in PianoKeys
+    <g style={{ touchAction: 'none' }}>
       {/* Shadow for depth */}
       <rect x={x + 2} y={2} width={w - 2} height={height} rx={4} ry={4} fill="rgba(0,0,0,0.15)" />
       {/* Main Key Body */}
@@ -64,6 +51,22 @@ const WhiteKey: React.FC<WhiteKeyProps> = React.memo(({
         className="cursor-pointer transition-transform duration-75 ease-out origin-top"
         style={{ transform: isActive ? 'rotateX(2deg) translateY(2px)' : 'none' }}
       />
+      {/* Scale / Chord Guide Tint */}
+      {highlight && (
+        <rect x={x} y={0} width={w - 1} height={height} rx={4} ry={4} fill={highlight === 'root' ? "rgba(16,185,129,0.35)" : "rgba(16,185,129,0.15)"} className="pointer-events-none" />
+      )}
+      {/* Root Marker */}
+      {highlight === 'root' && (
+        <circle cx={x + w / 2} cy={height - (62 * scaleFactor)} r={5 * scaleFactor} fill="#059669" className="pointer-events-none" />
+      )}
+      {/* Practice Target */}
+      {isExpected && (
+        <rect x={x + 3} y={3} width={w - 7} height={height - 6} rx={4} ry={4} fill="rgba(59,130,246,0.12)" stroke="#3b82f6" strokeWidth={5} className="pointer-events-none" />
+      )}
+      {/* Learn Mode Selection */}
+      {isSelected && (
+        <rect x={x + 3} y={3} width={w - 7} height={height - 6} rx={4} ry={4} fill="none" stroke="#f59e0b" strokeWidth={6} className="pointer-events-none" />
+      )}
       {/* Front Lip Highlight */}
       <rect x={x} y={height - (5 * scaleFactor)} width={w - 1} height={5 * scaleFactor} rx={4} ry={4} fill="rgba(0,0,0,0.05)" className="pointer-events-none" />
 
@@ -73,9 +76,15 @@ const WhiteKey: React.FC<WhiteKeyProps> = React.memo(({
           {keyLabel}
         </text>
       )}
+      {/* Cent Deviation (+14, −6...) */}
+      {centLabel && (
+        <text x={x + w / 2} y={centLabelY} textAnchor="middle" fontSize={centLabelFontSize} fontWeight="500" fill={isActive ? "#1d4ed8" : "#f59e0b"} className="pointer-events-none select-none tabular-nums">
+          {centLabel}
+        </text>
+      )}
       {/* Note Name (C4, D4...) */}
       <text x={x + w / 2} y={noteNameY} textAnchor="middle" fontSize={noteNameFontSize} fontWeight="500" fill={isActive ? "#1d4ed8" : "#cbd5e1"} className="pointer-events-none select-none">
-        {getNoteName(midi)}{octave}
+        {noteName}
       </text>
     </g>
   );
@@ -0,0 +1,66 @@
+import React, { useRef, useCallback, useEffect } from 'react';
+import { ArpeggiatorSettings } from '../types';
+import { Arpeggiator, createArpeggiator } from '../utils/arpeggiator';
+
+interface ArpHandlers {
+  playNote: (midi: number, velocity: number, when: number, duration: number) => void;
+}
+
+// Held keys go to the arpeggiator instead of the synth while it is enabled
+export const useArpeggiator = (
+  audioContext: React.MutableRefObject<AudioContext | null>,
+  tempo: number,
+  settings: ArpeggiatorSettings,
+  handlers: ArpHandlers
+) => {
+  const arpeggiator = useRef<Arpeggiator | null>(null);
+  const tempoRef = useRef(tempo);
+  const settingsRef = useRef(settings);
+  const handlersRef = useRef(handlers);
+  tempoRef.current = tempo;
+  settingsRef.current = settings;
+  handlersRef.current = handlers;
+
+  const getArpeggiator = useCallback((ctx: AudioContext) => {
+    if (!arpeggiator.current) {
+      arpeggiator.current = createArpeggiator(ctx, {
+        playNote: (midi, velocity, when, duration) => handlersRef.current.playNote(midi, velocity, when, duration),
+      });
+      arpeggiator.current.setTempo(tempoRef.current);
+      arpeggiator.current.setSettings(settingsRef.current);
+    }
+    return arpeggiator.current;
+  }, []);
+
+  useEffect(() => {
+    arpeggiator.current?.setTempo(tempo);
+  }, [tempo]);
+
+  useEffect(() => {
+    arpeggiator.current?.setSettings(settings);
+  }, [settings]);
+
+  // Switching off mid-arpeggio lets go of the keys it was holding
+  useEffect(() => {
+    if (!settings.enabled) arpeggiator.current?.clear();
+  }, [settings.enabled]);
+
+  const noteOn = useCallback((midi: number, velocity: number) => {
+    const ctx = audioContext.current;
+    if (ctx) getArpeggiator(ctx).noteOn(midi, velocity);
+  }, [audioContext, getArpeggiator]);
+
+  const noteOff = useCallback((midi: number) => {
+    arpeggiator.current?.noteOff(midi);
+  }, []);
+
+  const clear = useCallback(() => {
+    arpeggiator.current?.clear();
+  }, []);
+
+  useEffect(() => {
+    return () => arpeggiator.current?.clear();
+  }, []);
+
+  return { noteOn, noteOff, clear };
+};
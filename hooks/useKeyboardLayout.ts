@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { KeyboardLayout } from '../types';
+import { BUILT_IN_LAYOUTS, CUSTOM_LAYOUT_ID, DEFAULT_LAYOUT_ID, getBuiltInLayout, getOffsetLabels } from '../utils/keyboardLayouts';
+
+const STORAGE_KEY = 'pianoSynth.keyboardLayout';
+
+interface StoredLayoutState {
+  layoutId: string;
+  custom: KeyboardLayout | null; // Created the first time a key is learned
+}
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// A stale or hand-edited entry must not reach the key layout code, so anything
+// that isn't a well-formed layout is dropped
+const readCustomLayout = (value: unknown): KeyboardLayout | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  const { bindings, labels } = value;
+  if (!isRecord(bindings)) return null;
+  if (!Object.values(bindings).every(offset => typeof offset === 'number' && Number.isFinite(offset))) return null;
+  const hasLabels = isRecord(labels) && Object.values(labels).every(label => typeof label === 'string');
+  return {
+    id: value.id,
+    name: value.name,
+    bindings: bindings as KeyboardLayout['bindings'],
+    labels: hasLabels ? labels as KeyboardLayout['labels'] : undefined,
+  };
+};
+
+const loadLayoutState = (): StoredLayoutState => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (isRecord(stored) && typeof stored.layoutId === 'string') {
+      const custom = readCustomLayout(stored.custom);
+      // Without a usable custom layout, fall back to the default rather than an empty one
+      const layoutId = stored.layoutId === CUSTOM_LAYOUT_ID && !custom ? DEFAULT_LAYOUT_ID : stored.layoutId;
+      return { layoutId, custom };
+    }
+  } catch (e) {
+    console.warn("Error loading keyboard layout:", e);
+  }
+  return { layoutId: DEFAULT_LAYOUT_ID, custom: null };
+};
+
+export const useKeyboardLayout = () => {
+  const [state, setState] = useState<StoredLayoutState>(loadLayoutState);
+
+  // Persist every change
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (e) {
+      console.warn("Error saving keyboard layout:", e);
+    }
+  }, [state]);
+
+  const layout = state.layoutId === CUSTOM_LAYOUT_ID && state.custom
+    ? state.custom
+    : getBuiltInLayout(state.layoutId);
+
+  const layouts = useMemo(() => {
+    return state.custom ? [...BUILT_IN_LAYOUTS, state.custom] : BUILT_IN_LAYOUTS;
+  }, [state.custom]);
+
+  const offsetLabels = useMemo(() => getOffsetLabels(layout), [layout]);
+
+  const selectLayout = useCallback((layoutId: string) => {
+    setState(prev => ({ ...prev, layoutId }));
+  }, []);
+
+  // Learning edits a custom copy of whichever layout is active, then switches to it
+  const editCustomLayout = useCallback((edit: (bindings: KeyboardLayout['bindings']) => void) => {
+    setState(prev => {
+      const base = prev.layoutId === CUSTOM_LAYOUT_ID && prev.custom ? prev.custom : getBuiltInLayout(prev.layoutId);
+      const custom: KeyboardLayout = {
+        id: CUSTOM_LAYOUT_ID,
+        name: 'Custom',
+        bindings: { ...base.bindings },
+        labels: base.labels,
+      };
+      edit(custom.bindings);
+      return { layoutId: CUSTOM_LAYOUT_ID, custom };
+    });
+  }, []);
+
+  const bindKey = useCallback((code: string, offset: number) => {
+    editCustomLayout((bindings) => {
+      bindings[code] = offset;
+    });
+  }, [editCustomLayout]);
+
+  const clearOffset = useCallback((offset: number) => {
+    editCustomLayout((bindings) => {
+      Object.keys(bindings).forEach((code) => {
+        if (bindings[code] === offset) delete bindings[code];
+      });
+    });
+  }, [editCustomLayout]);
+
+  return { layout, layouts, offsetLabels, selectLayout, bindKey, clearOffset };
+};
@@ -0,0 +1,122 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { MetronomeSettings } from '../types';
+import { createMetronome, getBarDuration, Metronome, MetronomeTick } from '../utils/metronome';
+
+// Delay before the first click so it isn't scheduled late
+const START_OFFSET = 0.1;
+
+export const useMetronome = (
+  audioContext: React.MutableRefObject<AudioContext | null>,
+  tempo: number,
+  settings: MetronomeSettings
+) => {
+  const [isRunning, setIsRunningState] = useState(false);
+  const [isCountingIn, setIsCountingIn] = useState(false);
+  const [beat, setBeat] = useState<number | null>(null); // Beat of the bar being clicked, for the display
+
+  const metronome = useRef<Metronome | null>(null);
+  const isRunningRef = useRef(false);
+  const timeouts = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  const tempoRef = useRef(tempo);
+  const settingsRef = useRef(settings);
+  tempoRef.current = tempo;
+  settingsRef.current = settings;
+
+  const setIsRunning = useCallback((next: boolean) => {
+    isRunningRef.current = next;
+    setIsRunningState(next);
+  }, []);
+
+  // Run a UI update when the audio clock reaches `when`
+  const scheduleAt = useCallback((when: number, ctx: AudioContext, callback: () => void) => {
+    const timeout = setTimeout(() => {
+      timeouts.current.delete(timeout);
+      callback();
+    }, Math.max(0, (when - ctx.currentTime) * 1000));
+    timeouts.current.add(timeout);
+  }, []);
+
+  const clearTimeouts = useCallback(() => {
+    timeouts.current.forEach(timeout => clearTimeout(timeout));
+    timeouts.current.clear();
+  }, []);
+
+  // The click gets its own path to the speakers, bypassing the piano's master gain
+  // and effects, so it is never part of what the piano sounds like (or exports)
+  const getMetronome = useCallback((ctx: AudioContext) => {
+    if (!metronome.current) {
+      const output = ctx.createGain();
+      output.connect(ctx.destination);
+      metronome.current = createMetronome(ctx, output, (tick: MetronomeTick) => {
+        if (tick.subdivision === 0) scheduleAt(tick.time, ctx, () => setBeat(tick.beat));
+      });
+      metronome.current.setTempo(tempoRef.current);
+      metronome.current.setSettings(settingsRef.current);
+    }
+    return metronome.current;
+  }, [scheduleAt]);
+
+  useEffect(() => {
+    metronome.current?.setTempo(tempo);
+  }, [tempo]);
+
+  useEffect(() => {
+    metronome.current?.setSettings(settings);
+  }, [settings]);
+
+  const stop = useCallback(() => {
+    metronome.current?.stop();
+    clearTimeouts();
+    setIsRunning(false);
+    setIsCountingIn(false);
+    setBeat(null);
+  }, [clearTimeouts, setIsRunning]);
+
+  const start = useCallback(() => {
+    const ctx = audioContext.current;
+    if (!ctx) return;
+    ctx.resume();
+    clearTimeouts();
+    getMetronome(ctx).start(ctx.currentTime + START_OFFSET);
+    setIsCountingIn(false);
+    setIsRunning(true);
+  }, [audioContext, clearTimeouts, getMetronome, setIsRunning]);
+
+  const toggle = useCallback(() => {
+    if (isRunningRef.current) stop(); else start();
+  }, [start, stop]);
+
+  // Click the count-in bars, then call back with the audio time of the next downbeat.
+  // A metronome that was already on keeps going; otherwise it stops with the count-in.
+  const countIn = useCallback((onDownbeat: (time: number) => void) => {
+    const ctx = audioContext.current;
+    if (!ctx) return;
+    ctx.resume();
+    clearTimeouts();
+
+    const keepRunning = isRunningRef.current;
+    const startTime = ctx.currentTime + START_OFFSET;
+    const downbeat = startTime + settingsRef.current.countInBars * getBarDuration(tempoRef.current, settingsRef.current);
+    getMetronome(ctx).start(startTime, keepRunning ? undefined : downbeat);
+    setIsRunning(true);
+    setIsCountingIn(true);
+
+    scheduleAt(downbeat, ctx, () => {
+      setIsCountingIn(false);
+      if (!keepRunning) {
+        setIsRunning(false);
+        setBeat(null);
+      }
+      onDownbeat(downbeat);
+    });
+  }, [audioContext, clearTimeouts, getMetronome, scheduleAt, setIsRunning]);
+
+  useEffect(() => {
+    return () => {
+      metronome.current?.stop();
+      timeouts.current.forEach(timeout => clearTimeout(timeout));
+    };
+  }, []);
+
+  return { isRunning, isCountingIn, beat, start, stop, toggle, countIn };
+};
@@ -0,0 +1,174 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useMidiInput } from './useMidiInput';
+
+type MessageListener = (e: MIDIMessageEvent) => void;
+
+// Just enough of a Web MIDI input port for the hook
+const createInput = (id: string, name: string) => {
+  const listeners = new Set<MessageListener>();
+  return {
+    id,
+    name,
+    manufacturer: 'Test',
+    listeners,
+    addEventListener: (_type: string, listener: MessageListener) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: MessageListener) => listeners.delete(listener),
+    send: (bytes: number[]) => act(() => {
+      listeners.forEach(listener => listener({ data: new Uint8Array(bytes) } as MIDIMessageEvent));
+    }),
+  };
+};
+
+type FakeInput = ReturnType<typeof createInput>;
+
+const createAccess = (ports: FakeInput[]) => {
+  const access = {
+    inputs: new Map(ports.map(port => [port.id, port])),
+    onstatechange: null as (() => void) | null,
+    // Hot-plugging a device fires statechange, as in the browser
+    connect: (port: FakeInput) => act(() => {
+      access.inputs.set(port.id, port);
+      access.onstatechange?.();
+    }),
+    disconnect: (id: string) => act(() => {
+      access.inputs.delete(id);
+      access.onstatechange?.();
+    }),
+  };
+  return access;
+};
+
+const createHandlers = () => ({
+  onNoteOn: vi.fn(),
+  onNoteOff: vi.fn(),
+  onPedalChange: vi.fn(),
+});
+
+const mockMidiAccess = (request: () => Promise<unknown>) => {
+  Object.defineProperty(navigator, 'requestMIDIAccess', { value: vi.fn(request), configurable: true });
+};
+
+// Render the hook and wait until the device list has arrived
+const renderWithAccess = async (access: ReturnType<typeof createAccess>) => {
+  mockMidiAccess(() => Promise.resolve(access));
+  const handlers = createHandlers();
+  const hook = renderHook(() => useMidiInput(handlers));
+  await waitFor(() => expect(hook.result.current.inputs).toHaveLength(access.inputs.size));
+  return { ...hook, handlers };
+};
+
+describe('useMidiInput', () => {
+  let keyboard: FakeInput;
+  let pads: FakeInput;
+
+  beforeEach(() => {
+    keyboard = createInput('keyboard', 'Stage Piano');
+    pads = createInput('pads', 'Pad Controller');
+  });
+
+  afterEach(() => {
+    delete (navigator as { requestMIDIAccess?: unknown }).requestMIDIAccess;
+  });
+
+  it('reports no support when the browser has no Web MIDI', () => {
+    const { result } = renderHook(() => useMidiInput(createHandlers()));
+    expect(result.current.isSupported).toBe(false);
+    expect(result.current.inputs).toEqual([]);
+  });
+
+  it('shows why MIDI access was refused', async () => {
+    mockMidiAccess(() => Promise.reject(new Error('Permission denied')));
+    const { result } = renderHook(() => useMidiInput(createHandlers()));
+    await waitFor(() => expect(result.current.error).toBe('Permission denied'));
+  });
+
+  it('lists the devices and listens to the first one', async () => {
+    const { result } = await renderWithAccess(createAccess([keyboard, pads]));
+
+    expect(result.current.isSupported).toBe(true);
+    expect(result.current.inputs).toEqual([
+      { id: 'keyboard', name: 'Stage Piano', manufacturer: 'Test' },
+      { id: 'pads', name: 'Pad Controller', manufacturer: 'Test' },
+    ]);
+    expect(result.current.selectedInputId).toBe('keyboard');
+    expect(keyboard.listeners.size).toBe(1);
+    expect(pads.listeners.size).toBe(0);
+  });
+
+  it('passes note-on and note-off to the handlers, with velocity 0 as note-off', async () => {
+    const { handlers } = await renderWithAccess(createAccess([keyboard]));
+
+    keyboard.send([0x90, 60, 100]);
+    expect(handlers.onNoteOn).toHaveBeenCalledWith(60, 100);
+
+    keyboard.send([0x80, 60, 64]);
+    keyboard.send([0x91, 64, 90]); // Any channel
+    keyboard.send([0x91, 64, 0]);
+    expect(handlers.onNoteOn).toHaveBeenCalledTimes(2);
+    expect(handlers.onNoteOn).toHaveBeenLastCalledWith(64, 90);
+    expect(handlers.onNoteOff.mock.calls).toEqual([[60], [64]]);
+  });
+
+  it('passes sustain pedal (CC64) changes on as 0-1 values', async () => {
+    const { handlers } = await renderWithAccess(createAccess([keyboard]));
+
+    keyboard.send([0xb0, 64, 127]);
+    keyboard.send([0xb0, 64, 0]);
+    keyboard.send([0xb0, 1, 100]); // Mod wheel: ignored
+    expect(handlers.onPedalChange.mock.calls).toEqual([['sustain', 1], ['sustain', 0]]);
+  });
+
+  it('moves the listener when another device is selected', async () => {
+    const { result, handlers } = await renderWithAccess(createAccess([keyboard, pads]));
+
+    act(() => result.current.selectInput('pads'));
+    expect(keyboard.listeners.size).toBe(0);
+    expect(pads.listeners.size).toBe(1);
+
+    keyboard.send([0x90, 60, 100]);
+    pads.send([0x90, 36, 80]);
+    expect(handlers.onNoteOn.mock.calls).toEqual([[36, 80]]);
+  });
+
+  it('picks up devices plugged in later and falls back when the selected one is unplugged', async () => {
+    const access = createAccess([]);
+    const { result } = await renderWithAccess(access);
+    expect(result.current.selectedInputId).toBeNull();
+
+    access.connect(keyboard);
+    expect(result.current.inputs.map(input => input.id)).toEqual(['keyboard']);
+    expect(result.current.selectedInputId).toBe('keyboard');
+    expect(keyboard.listeners.size).toBe(1);
+
+    access.connect(pads);
+    access.disconnect('keyboard');
+    expect(result.current.inputs.map(input => input.id)).toEqual(['pads']);
+    expect(result.current.selectedInputId).toBe('pads');
+    expect(keyboard.listeners.size).toBe(0);
+    expect(pads.listeners.size).toBe(1);
+  });
+
+  it('stays disconnected after the user chooses no device', async () => {
+    const access = createAccess([keyboard]);
+    const { result, handlers } = await renderWithAccess(access);
+
+    act(() => result.current.selectInput(null));
+    access.connect(pads);
+    expect(result.current.selectedInputId).toBeNull();
+    expect(keyboard.listeners.size).toBe(0);
+
+    keyboard.send([0x90, 60, 100]);
+    expect(handlers.onNoteOn).not.toHaveBeenCalled();
+  });
+
+  it('stops listening when unmounted', async () => {
+    const access = createAccess([keyboard]);
+    const { unmount } = await renderWithAccess(access);
+
+    unmount();
+    expect(keyboard.listeners.size).toBe(0);
+    expect(access.onstatechange).toBeNull();
+  });
+});
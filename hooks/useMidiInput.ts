@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { MidiInputInfo, PedalType } from '../types';
+import { parseMidiMessage, getMidiInputs, getPedalForController } from '../utils/midi';
+
+interface MidiInputHandlers {
+  onNoteOn: (midi: number, velocity: number) => void; // velocity is the raw 1-127 value
+  onNoteOff: (midi: number) => void;
+  onPedalChange: (pedal: PedalType, value: number) => void; // value 0-1
+}
+
+export const useMidiInput = (handlers: MidiInputHandlers) => {
+  const [isSupported] = useState(() => typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator);
+  const [inputs, setInputs] = useState<MidiInputInfo[]>([]);
+  const [selectedInputId, setSelectedInputId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const midiAccess = useRef<MIDIAccess | null>(null);
+  const hasUserSelected = useRef(false);
+
+  // Always dispatch to the latest handlers without re-binding the MIDI port listener
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Request access once and keep the port list in sync with hot-plugged devices
+  useEffect(() => {
+    if (!isSupported) return;
+    let cancelled = false;
+
+    navigator.requestMIDIAccess().then((access) => {
+      if (cancelled) return;
+      midiAccess.current = access;
+      setInputs(getMidiInputs(access));
+      access.onstatechange = () => setInputs(getMidiInputs(access));
+    }).catch((e) => {
+      if (!cancelled) setError(e instanceof Error ? e.message : 'MIDI access denied');
+    });
+
+    return () => {
+      cancelled = true;
+      if (midiAccess.current) {
+        midiAccess.current.onstatechange = null;
+      }
+    };
+  }, [isSupported]);
+
+  // Auto-select the first device (unless the user chose "None"), and fall back if the device disappears
+  useEffect(() => {
+    if (selectedInputId && inputs.some(input => input.id === selectedInputId)) return;
+    if (selectedInputId === null && hasUserSelected.current) return;
+    setSelectedInputId(inputs.length > 0 ? inputs[0].id : null);
+  }, [inputs, selectedInputId]);
+
+  const selectInput = useCallback((id: string | null) => {
+    hasUserSelected.current = true;
+    setSelectedInputId(id);
+  }, []);
+
+  const handleMidiMessage = useCallback((e: MIDIMessageEvent) => {
+    const message = parseMidiMessage(e.data);
+    if (!message) return;
+
+    const { onNoteOn, onNoteOff, onPedalChange } = handlersRef.current;
+    if (message.type === 'noteOn') {
+      onNoteOn(message.note, message.velocity);
+    } else if (message.type === 'noteOff') {
+      onNoteOff(message.note);
+    } else {
+      // Continuous pedals send the full 0-127 range, which gives half-pedalling
+      const pedal = getPedalForController(message.controller);
+      if (pedal) onPedalChange(pedal, message.value / 127);
+    }
+  }, []);
+
+  // Listen only to the selected port
+  useEffect(() => {
+    const access = midiAccess.current;
+    if (!access || !selectedInputId) return;
+    const input = access.inputs.get(selectedInputId);
+    if (!input) return;
+
+    input.addEventListener('midimessage', handleMidiMessage);
+    return () => {
+      input.removeEventListener('midimessage', handleMidiMessage);
+    };
+  }, [selectedInputId, inputs, handleMidiMessage]);
+
+  return { isSupported, inputs, selectedInputId, selectInput, error };
+};
@@ -0,0 +1,118 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { PracticeOptions, PracticeSummary, Take } from '../types';
+import { buildLessonSteps, createLessonSession, LessonSession } from '../utils/lesson';
+
+type PracticeStatus = 'idle' | 'running' | 'finished';
+
+const LEAD_IN = 1; // Seconds before the first note is due
+
+// Drills a take: the lesson clock runs on animation frames, but React state is
+// only touched when the expected keys, the progress or the score change
+export const usePractice = (take: Take | null, options: PracticeOptions) => {
+  const [status, setStatus] = useState<PracticeStatus>('idle');
+  const [expectedKeys, setExpectedKeys] = useState<Set<number>>(new Set());
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [summary, setSummary] = useState<PracticeSummary | null>(null); // Running score of the current pass
+  const [lastPassSummary, setLastPassSummary] = useState<PracticeSummary | null>(null); // Kept while the next loop runs
+  const [pass, setPass] = useState(0); // Completed passes through a looped section
+
+  const session = useRef<LessonSession | null>(null);
+  const frame = useRef(0);
+  const lastProgress = useRef({ done: 0, total: 0 });
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const now = () => performance.now() / 1000;
+
+  // Push the session's view into React state, skipping updates that change nothing
+  const sync = useCallback(() => {
+    const current = session.current;
+    if (!current) return;
+    const keys = current.getExpectedKeys();
+    setExpectedKeys(prev => prev.size === keys.length && keys.every(key => prev.has(key)) ? prev : new Set(keys));
+    const next = current.getProgress();
+    const last = lastProgress.current;
+    if (next.done !== last.done || next.total !== last.total) {
+      lastProgress.current = next;
+      setProgress(next);
+      setSummary(current.getSummary()); // The running score only moves with the progress
+    }
+  }, []);
+
+  const startSession = useCallback(() => {
+    if (!take) return false;
+    const steps = buildLessonSteps(take.events, optionsRef.current);
+    if (steps.length === 0) return false;
+    // Shift the lesson so the first note arrives after a short lead-in
+    const leadIn = LEAD_IN - steps[0].time;
+    session.current = createLessonSession(
+      steps.map(step => ({ ...step, time: step.time + leadIn })),
+      optionsRef.current.waitForNotes,
+      now()
+    );
+    lastProgress.current = { done: -1, total: -1 };
+    sync();
+    return true;
+  }, [take, sync]);
+
+  const stop = useCallback(() => {
+    cancelAnimationFrame(frame.current);
+    session.current = null;
+    setStatus('idle');
+    setExpectedKeys(new Set());
+  }, []);
+
+  const tick = useCallback(() => {
+    const current = session.current;
+    if (!current) return;
+    current.advance(now());
+    sync();
+
+    if (current.isFinished()) {
+      setSummary(current.getSummary());
+      setLastPassSummary(current.getSummary());
+      setPass(prev => prev + 1);
+      if (optionsRef.current.loop && startSession()) {
+        frame.current = requestAnimationFrame(tick);
+        return;
+      }
+      session.current = null;
+      setStatus('finished');
+      setExpectedKeys(new Set());
+      return;
+    }
+    frame.current = requestAnimationFrame(tick);
+  }, [sync, startSession]);
+
+  const start = useCallback(() => {
+    cancelAnimationFrame(frame.current);
+    setSummary(null);
+    setLastPassSummary(null);
+    setPass(0);
+    if (!startSession()) return;
+    setStatus('running');
+    frame.current = requestAnimationFrame(tick);
+  }, [startSession, tick]);
+
+  // Called for every note the student plays
+  const handleNoteOn = useCallback((midi: number) => {
+    const current = session.current;
+    if (!current) return;
+    current.press(midi, now());
+    sync();
+    setSummary(current.getSummary());
+  }, [sync]);
+
+  // A different take can't carry on the old lesson
+  useEffect(() => {
+    stop();
+    setSummary(null);
+    setLastPassSummary(null);
+  }, [take, stop]);
+
+  useEffect(() => {
+    return () => cancelAnimationFrame(frame.current);
+  }, []);
+
+  return { status, expectedKeys, progress, summary, lastPassSummary, pass, start, stop, handleNoteOn };
+};
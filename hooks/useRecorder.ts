@@ -0,0 +1,237 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { PedalType, PerformanceEvent, RecorderStatus, Take } from '../types';
+import { createLookaheadScheduler, LookaheadScheduler } from '../utils/scheduler';
+import { closeOpenNotes, getPerformanceDuration, mergePerformances } from '../utils/performance';
+
+// Event without its timestamp; the recorder stamps it against the audio clock
+type UnstampedEvent =
+  | { type: 'noteOn'; midi: number; velocity: number }
+  | { type: 'noteOff'; midi: number }
+  | { type: 'pedal'; pedal: PedalType; value: number };
+
+interface PlaybackHandlers {
+  playNote: (midi: number, velocity: number, when: number) => void;
+  stopNote: (midi: number, when: number) => void;
+  setPedal: (pedal: PedalType, value: number, when: number) => void;
+  onKeyChange: (midi: number, isDown: boolean) => void; // Fired in wall-clock time for key animation
+}
+
+interface PlaybackState {
+  take: Take;
+  startTime: number; // AudioContext time of the take's t=0
+  cursor: number; // Index of the next event to schedule
+  pedalsUsed: Set<PedalType>;
+  soundingNotes: Set<number>;
+  scheduler: LookaheadScheduler;
+}
+
+export const useRecorder = (audioContext: React.MutableRefObject<AudioContext | null>, handlers: PlaybackHandlers) => {
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [selectedTakeId, setSelectedTakeId] = useState<string | null>(null);
+  const [status, setStatusState] = useState<RecorderStatus>('idle');
+
+  // Mirrors of state needed synchronously from event handlers
+  const statusRef = useRef<RecorderStatus>('idle');
+  const recordStartTime = useRef(0);
+  const recordedEvents = useRef<PerformanceEvent[]>([]);
+  const overdubBase = useRef<Take | null>(null);
+  const playback = useRef<PlaybackState | null>(null);
+  const keyTimeouts = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  const takeCounter = useRef(0);
+
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const setStatus = useCallback((next: RecorderStatus) => {
+    statusRef.current = next;
+    setStatusState(next);
+  }, []);
+
+  const selectedTake = takes.find(take => take.id === selectedTakeId) || null;
+
+  // Called by every input path (keyboard, pointer, MIDI) while the recorder is armed
+  const recordEvent = useCallback((event: UnstampedEvent) => {
+    const ctx = audioContext.current;
+    if (!ctx || (statusRef.current !== 'recording' && statusRef.current !== 'overdubbing')) return;
+    // Clamped, as a count-in can start the take a moment after its first notes arrive
+    const time = Math.max(0, ctx.currentTime - recordStartTime.current);
+    recordedEvents.current.push({ ...event, time } as PerformanceEvent);
+  }, [audioContext]);
+
+  const addTake = useCallback((name: string, events: PerformanceEvent[]) => {
+    const take: Take = {
+      id: `take-${Date.now()}-${takeCounter.current}`,
+      name,
+      events,
+      duration: getPerformanceDuration(events),
+    };
+    setTakes(prev => [...prev, take]);
+    setSelectedTakeId(take.id);
+    return take;
+  }, []);
+
+  // Schedule the animation of a key press to line up with its audio
+  const scheduleKeyChange = useCallback((midi: number, isDown: boolean, when: number, ctx: AudioContext) => {
+    const timeout = setTimeout(() => {
+      keyTimeouts.current.delete(timeout);
+      handlersRef.current.onKeyChange(midi, isDown);
+    }, Math.max(0, (when - ctx.currentTime) * 1000));
+    keyTimeouts.current.add(timeout);
+  }, []);
+
+  const stopPlayback = useCallback(() => {
+    const state = playback.current;
+    const ctx = audioContext.current;
+    if (!state || !ctx) return;
+
+    state.scheduler.stop();
+    keyTimeouts.current.forEach(timeout => clearTimeout(timeout));
+    keyTimeouts.current.clear();
+
+    const { stopNote, setPedal, onKeyChange } = handlersRef.current;
+    // Lift the take's pedals first so its notes are damped as they stop
+    state.pedalsUsed.forEach(pedal => setPedal(pedal, 0, ctx.currentTime));
+    state.soundingNotes.forEach((midi) => {
+      stopNote(midi, ctx.currentTime);
+      onKeyChange(midi, false);
+    });
+    playback.current = null;
+  }, [audioContext]);
+
+  const startPlayback = useCallback((take: Take, ctx: AudioContext) => {
+    const state: PlaybackState = {
+      take,
+      startTime: ctx.currentTime + 0.05, // Small offset so the first event isn't late
+      cursor: 0,
+      pedalsUsed: new Set(),
+      soundingNotes: new Set(),
+      scheduler: createLookaheadScheduler(ctx, (until) => {
+        const { playNote, stopNote, setPedal } = handlersRef.current;
+
+        while (state.cursor < take.events.length) {
+          const event = take.events[state.cursor];
+          const when = state.startTime + event.time;
+          if (when > until) break;
+
+          if (event.type === 'noteOn') {
+            playNote(event.midi, event.velocity, when);
+            state.soundingNotes.add(event.midi);
+            scheduleKeyChange(event.midi, true, when, ctx);
+          } else if (event.type === 'noteOff') {
+            stopNote(event.midi, when);
+            state.soundingNotes.delete(event.midi);
+            scheduleKeyChange(event.midi, false, when, ctx);
+          } else {
+            setPedal(event.pedal, event.value, when);
+            state.pedalsUsed.add(event.pedal);
+          }
+          state.cursor++;
+        }
+
+        // Everything has been scheduled and played out
+        if (state.cursor >= take.events.length && ctx.currentTime >= state.startTime + take.duration) {
+          state.scheduler.stop();
+          if (playback.current === state) playback.current = null;
+          if (statusRef.current === 'playing') setStatus('idle');
+        }
+      }),
+    };
+
+    playback.current = state;
+    state.scheduler.start();
+    return state;
+  }, [scheduleKeyChange, setStatus]);
+
+  // `startTime` (AudioContext time) lets a count-in put the take's t=0 exactly on its downbeat
+  const record = useCallback((startTime?: number) => {
+    const ctx = audioContext.current;
+    if (!ctx || statusRef.current !== 'idle') return;
+    ctx.resume();
+
+    recordedEvents.current = [];
+    recordStartTime.current = startTime ?? ctx.currentTime;
+    setStatus('recording');
+  }, [audioContext, setStatus]);
+
+  // Play the selected take while recording on top of it
+  const overdub = useCallback(() => {
+    const ctx = audioContext.current;
+    if (!ctx || !selectedTake || statusRef.current !== 'idle') return;
+    ctx.resume();
+
+    const state = startPlayback(selectedTake, ctx);
+    overdubBase.current = selectedTake;
+    recordedEvents.current = [];
+    recordStartTime.current = state.startTime;
+    setStatus('overdubbing');
+  }, [audioContext, selectedTake, startPlayback, setStatus]);
+
+  const play = useCallback(() => {
+    const ctx = audioContext.current;
+    if (!ctx || !selectedTake || statusRef.current !== 'idle') return;
+    ctx.resume();
+
+    startPlayback(selectedTake, ctx);
+    setStatus('playing');
+  }, [audioContext, selectedTake, startPlayback, setStatus]);
+
+  const stop = useCallback(() => {
+    const ctx = audioContext.current;
+    const currentStatus = statusRef.current;
+    if (!ctx || currentStatus === 'idle') return;
+
+    stopPlayback();
+
+    if (currentStatus === 'recording' || currentStatus === 'overdubbing') {
+      const endTime = ctx.currentTime - recordStartTime.current;
+      const base = currentStatus === 'overdubbing' ? overdubBase.current : null;
+      const events = closeOpenNotes(recordedEvents.current, endTime);
+
+      if (base) {
+        addTake(`${base.name} + overdub`, mergePerformances(base.events, events));
+      } else if (events.length > 0) {
+        takeCounter.current++;
+        addTake(`Take ${takeCounter.current}`, events);
+      }
+      recordedEvents.current = [];
+      overdubBase.current = null;
+    }
+
+    setStatus('idle');
+  }, [audioContext, stopPlayback, addTake, setStatus]);
+
+  // Take being played and its start on the audio clock; read per frame by the visualizer
+  const getPlaybackPosition = useCallback(() => {
+    const state = playback.current;
+    return state ? { take: state.take, startTime: state.startTime } : null;
+  }, []);
+
+  const deleteTake = useCallback((id: string) => {
+    setTakes(prev => prev.filter(take => take.id !== id));
+    setSelectedTakeId(prev => prev === id ? null : prev);
+  }, []);
+
+  // Make sure nothing keeps scheduling after unmount
+  useEffect(() => {
+    return () => {
+      playback.current?.scheduler.stop();
+      keyTimeouts.current.forEach(timeout => clearTimeout(timeout));
+    };
+  }, []);
+
+  return {
+    takes,
+    selectedTakeId,
+    selectedTake,
+    selectTake: setSelectedTakeId,
+    status,
+    recordEvent,
+    record,
+    overdub,
+    play,
+    stop,
+    deleteTake,
+    addTake,
+    getPlaybackPosition,
+  };
+};
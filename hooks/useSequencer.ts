@@ -0,0 +1,163 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { SequencerSettings, SequencerStep } from '../types';
+import { addStepNote, createEmptyPattern, createSequencer, Sequencer, toggleStepNote } from '../utils/sequencer';
+
+interface SequencerHandlers {
+  playNote: (midi: number, velocity: number, when: number, duration: number) => void;
+}
+
+// Delay before the first step so it isn't scheduled late
+const START_OFFSET = 0.1;
+
+export const useSequencer = (
+  audioContext: React.MutableRefObject<AudioContext | null>,
+  tempo: number,
+  settings: SequencerSettings,
+  handlers: SequencerHandlers
+) => {
+  const [steps, setStepsState] = useState<SequencerStep[]>(createEmptyPattern);
+  const [isPlaying, setIsPlayingState] = useState(false);
+  const [currentStep, setCurrentStep] = useState<number | null>(null); // Step being heard, for the grid
+  const [isRecording, setIsRecordingState] = useState(false);
+  const [recordStep, setRecordStepState] = useState(0); // Step the next recorded notes go into
+
+  const sequencer = useRef<Sequencer | null>(null);
+  const timeouts = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  // Mirrors of state needed synchronously from note handlers
+  const stepsRef = useRef(steps);
+  const isPlayingRef = useRef(false);
+  const isRecordingRef = useRef(false);
+  const recordStepRef = useRef(0);
+  const recordHeld = useRef<Set<number>>(new Set()); // Keys down for the step being recorded
+  const tempoRef = useRef(tempo);
+  const settingsRef = useRef(settings);
+  const handlersRef = useRef(handlers);
+  tempoRef.current = tempo;
+  settingsRef.current = settings;
+  handlersRef.current = handlers;
+
+  const setSteps = useCallback((next: SequencerStep[]) => {
+    stepsRef.current = next;
+    setStepsState(next);
+    sequencer.current?.setSteps(next);
+  }, []);
+
+  const setIsPlaying = useCallback((next: boolean) => {
+    isPlayingRef.current = next;
+    setIsPlayingState(next);
+  }, []);
+
+  const setIsRecording = useCallback((next: boolean) => {
+    isRecordingRef.current = next;
+    setIsRecordingState(next);
+  }, []);
+
+  const setRecordStep = useCallback((index: number) => {
+    recordStepRef.current = index;
+    recordHeld.current.clear();
+    setRecordStepState(index);
+  }, []);
+
+  // Light up the grid when the audio clock reaches a step
+  const scheduleAt = useCallback((when: number, ctx: AudioContext, callback: () => void) => {
+    const timeout = setTimeout(() => {
+      timeouts.current.delete(timeout);
+      callback();
+    }, Math.max(0, (when - ctx.currentTime) * 1000));
+    timeouts.current.add(timeout);
+  }, []);
+
+  const clearTimeouts = useCallback(() => {
+    timeouts.current.forEach(timeout => clearTimeout(timeout));
+    timeouts.current.clear();
+  }, []);
+
+  const getSequencer = useCallback((ctx: AudioContext) => {
+    if (!sequencer.current) {
+      sequencer.current = createSequencer(ctx, {
+        playNote: (midi, velocity, when, duration) => handlersRef.current.playNote(midi, velocity, when, duration),
+      }, (index, time) => scheduleAt(time, ctx, () => setCurrentStep(index)));
+      sequencer.current.setSteps(stepsRef.current);
+      sequencer.current.setTempo(tempoRef.current);
+      sequencer.current.setSettings(settingsRef.current);
+    }
+    return sequencer.current;
+  }, [scheduleAt]);
+
+  useEffect(() => {
+    sequencer.current?.setTempo(tempo);
+  }, [tempo]);
+
+  useEffect(() => {
+    sequencer.current?.setSettings(settings);
+    if (recordStepRef.current >= settings.length) setRecordStep(0);
+  }, [settings, setRecordStep]);
+
+  const stop = useCallback(() => {
+    sequencer.current?.stop();
+    clearTimeouts();
+    setIsPlaying(false);
+    setCurrentStep(null);
+  }, [clearTimeouts, setIsPlaying]);
+
+  const start = useCallback(() => {
+    const ctx = audioContext.current;
+    if (!ctx) return;
+    ctx.resume();
+    clearTimeouts();
+    getSequencer(ctx).start(ctx.currentTime + START_OFFSET);
+    setIsPlaying(true);
+  }, [audioContext, clearTimeouts, getSequencer, setIsPlaying]);
+
+  const toggle = useCallback(() => {
+    if (isPlayingRef.current) stop(); else start();
+  }, [start, stop]);
+
+  // Step recording: keys pressed together land in one step, which moves on
+  // once they have all been let go
+  const toggleRecording = useCallback(() => {
+    setIsRecording(!isRecordingRef.current);
+    recordHeld.current.clear();
+  }, [setIsRecording]);
+
+  const recordNoteOn = useCallback((midi: number, velocity: number) => {
+    if (!isRecordingRef.current) return;
+    recordHeld.current.add(midi);
+    setSteps(addStepNote(stepsRef.current, recordStepRef.current, midi, velocity));
+  }, [setSteps]);
+
+  const recordNoteOff = useCallback((midi: number) => {
+    if (!isRecordingRef.current || !recordHeld.current.delete(midi)) return;
+    if (recordHeld.current.size === 0) {
+      setRecordStep((recordStepRef.current + 1) % settingsRef.current.length);
+    }
+  }, [setRecordStep]);
+
+  // Leave the record step empty and move on
+  const rest = useCallback(() => {
+    const index = recordStepRef.current;
+    setSteps(stepsRef.current.map((step, i) => i === index ? { ...step, notes: [] } : step));
+    setRecordStep((index + 1) % settingsRef.current.length);
+  }, [setSteps, setRecordStep]);
+
+  const toggleNote = useCallback((index: number, midi: number) => {
+    setSteps(toggleStepNote(stepsRef.current, index, midi));
+  }, [setSteps]);
+
+  const clear = useCallback(() => {
+    setSteps(createEmptyPattern());
+    setRecordStep(0);
+  }, [setSteps, setRecordStep]);
+
+  useEffect(() => {
+    return () => {
+      sequencer.current?.stop();
+      timeouts.current.forEach(timeout => clearTimeout(timeout));
+    };
+  }, []);
+
+  return {
+    steps, isPlaying, currentStep, isRecording, recordStep,
+    start, stop, toggle, toggleRecording, recordNoteOn, recordNoteOff, rest, toggleNote, clear, setRecordStep,
+  };
+};
@@ -1,23 +1,72 @@
-import { useEffect, useRef, useCallback } from 'react';
-import { ActiveNoteData } from '../types';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { EffectSettings, EnvelopeSettings, FilterSettings, LfoSettings, NoteSource, PedalType, PolyphonySettings, SampleSet, StringModelSettings, SynthPreset, TuningSettings, VoiceType } from '../types';
+import { getPresetById, DEFAULT_PRESET_ID } from '../utils/presets';
+import { DEFAULT_ENVELOPE } from '../utils/envelope';
+import { createSynthEngine, SynthEngine } from '../utils/synthEngine';
+import { DEFAULT_POLYPHONY } from '../utils/voiceAllocator';
+import { DEFAULT_STRING_MODEL, loadStringModel } from '../utils/stringVoice';
+import { DEFAULT_TUNING } from '../utils/tuning';
+import { createEffectsRack, DEFAULT_EFFECTS, DEFAULT_TEMPO, EffectsRack } from '../utils/effects';
+import { ANALYSER_FFT_SIZE } from '../utils/analysis';
+import { DEFAULT_FILTER } from '../utils/filter';
+import { DEFAULT_LFOS } from '../utils/lfo';
 
 export const useSynth = () => {
   const audioContext = useRef<AudioContext | null>(null);
   const masterGainNode = useRef<GainNode | null>(null);
-  const activeOscillators = useRef<Map<number, ActiveNoteData>>(new Map()); // Notes currently held down
-  const sustainedOscillators = useRef<Map<number, ActiveNoteData>>(new Map()); // Notes released but sustaining
-
-  // Initialize AudioContext and Master Gain Node
+  const analyser = useRef<AnalyserNode | null>(null); // Taps the master gain for the scope panel
+  const engine = useRef<SynthEngine | null>(null);
+  const effectsRack = useRef<EffectsRack | null>(null);
+  // Settings are kept here too so they survive (and are applied to) a freshly created engine
+  const voiceType = useRef<VoiceType>('synth');
+  const currentPreset = useRef<SynthPreset>(getPresetById(DEFAULT_PRESET_ID));
+  const sampleSet = useRef<SampleSet | null>(null);
+  const stringModel = useRef<StringModelSettings>(DEFAULT_STRING_MODEL);
+  const tuning = useRef<TuningSettings>(DEFAULT_TUNING);
+  const envelope = useRef<EnvelopeSettings>(DEFAULT_ENVELOPE);
+  const filter = useRef<FilterSettings>(DEFAULT_FILTER);
+  const lfos = useRef({ settings: DEFAULT_LFOS, tempo: DEFAULT_TEMPO });
+  const effects = useRef({ settings: DEFAULT_EFFECTS, tempo: DEFAULT_TEMPO });
+  const polyphony = useRef<PolyphonySettings>(DEFAULT_POLYPHONY);
+  const [voiceCount, setVoiceCount] = useState(0); // Voices sounding, release tails included
+  const [sustainedNotes, setSustainedNotes] = useState<number[]>([]); // Released keys still ringing under a pedal
+
+  // Initialize AudioContext, Master Gain Node, effects rack and the voice engine
   useEffect(() => {
     if (!audioContext.current) {
       const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
       if (AudioCtx) {
         audioContext.current = new AudioCtx();
         masterGainNode.current = audioContext.current.createGain();
-        masterGainNode.current.connect(audioContext.current.destination);
+        // Master gain -> effects rack -> destination
+        effectsRack.current = createEffectsRack(audioContext.current, audioContext.current.destination);
+        effectsRack.current.setEffects(effects.current.settings, effects.current.tempo);
+        masterGainNode.current.connect(effectsRack.current.input);
+        analyser.current = audioContext.current.createAnalyser();
+        analyser.current.fftSize = ANALYSER_FFT_SIZE;
+        masterGainNode.current.connect(analyser.current);
+
+        engine.current = createSynthEngine(audioContext.current, masterGainNode.current, {
+          onVoiceCountChange: setVoiceCount,
+          onSustainedNotesChange: setSustainedNotes,
+        });
+        engine.current.setVoiceType(voiceType.current);
+        engine.current.setPreset(currentPreset.current);
+        engine.current.setSampleSet(sampleSet.current);
+        engine.current.setStringModel(stringModel.current);
+        engine.current.setTuning(tuning.current);
+
+        // String voices play the synth until the worklet has loaded
+        loadStringModel(audioContext.current).catch((e) => {
+          console.warn("Error loading string model:", e);
+        });
+        engine.current.setEnvelope(envelope.current);
+        engine.current.setFilter(filter.current);
+        engine.current.setLfos(lfos.current.settings, lfos.current.tempo);
+        engine.current.setPolyphony(polyphony.current);
       }
     }
-    
+
     return () => {
       if (audioContext.current) {
         audioContext.current.close();
@@ -34,135 +83,89 @@ export const useSynth = () => {
     }
   }, []);
 
-  const playNote = useCallback((midiNote: number, volume: number = 0.5) => {
-    if (!audioContext.current || !masterGainNode.current) {
-      return; 
-    }
-    
-    const ctx = audioContext.current;
-    
-    // If this note was previously sustaining, remove it from sustained list
-    // as it's now being actively played again.
-    if (sustainedOscillators.current.has(midiNote)) {
-        const { oscillator, gainNode } = sustainedOscillators.current.get(midiNote)!;
-        gainNode.gain.cancelScheduledValues(ctx.currentTime); // Cancel previous release
-        sustainedOscillators.current.delete(midiNote);
-        activeOscillators.current.set(midiNote, { oscillator, gainNode }); // Add to active
-        return;
-    }
+  // Select the oscillator preset used for subsequently played notes
+  const setPreset = useCallback((presetId: string) => {
+    currentPreset.current = getPresetById(presetId);
+    engine.current?.setPreset(currentPreset.current);
+  }, []);
 
-    if (activeOscillators.current.has(midiNote)) {
-      return; // Already playing
-    }
+  // Synthesized or sampled voices for subsequently played notes
+  const setVoiceType = useCallback((type: VoiceType) => {
+    voiceType.current = type;
+    engine.current?.setVoiceType(type);
+  }, []);
+
+  const setSampleSet = useCallback((set: SampleSet | null) => {
+    sampleSet.current = set;
+    engine.current?.setSampleSet(set);
+  }, []);
+
+  // Stiffness and damping for notes started on the string model
+  const setStringModel = useCallback((settings: StringModelSettings) => {
+    stringModel.current = settings;
+    engine.current?.setStringModel(settings);
+  }, []);
 
-    // Frequency calculation
-    const frequency = 440 * Math.pow(2, (midiNote - 69) / 12);
-    
-    const osc = ctx.createOscillator();
-    const gainNode = ctx.createGain();
+  // Temperament, reference pitch or imported Scala tuning for subsequently played notes
+  const setTuning = useCallback((settings: TuningSettings) => {
+    tuning.current = settings;
+    engine.current?.setTuning(settings);
+  }, []);
 
-    osc.type = 'triangle'; // Triangle provides a slightly warmer, piano-like tone than sine
-    osc.frequency.setValueAtTime(frequency, ctx.currentTime);
-    
-    // Envelope for attack
-    const t = ctx.currentTime;
-    const attackTime = 0.015;
+  // Envelope changes apply to notes started (or released) after the change
+  const setEnvelope = useCallback((settings: EnvelopeSettings) => {
+    envelope.current = settings;
+    engine.current?.setEnvelope(settings);
+  }, []);
 
-    gainNode.gain.setValueAtTime(0, t);
-    gainNode.gain.linearRampToValueAtTime(volume, t + attackTime);
+  // Filter type, cutoff and filter envelope for subsequently played notes
+  const setFilter = useCallback((settings: FilterSettings) => {
+    filter.current = settings;
+    engine.current?.setFilter(settings);
+  }, []);
 
-    osc.connect(gainNode);
-    gainNode.connect(masterGainNode.current); // Connect to master gain
-    
-    osc.start();
+  // Vibrato, filter and tremolo LFOs; tempo is used by synced LFOs
+  const setLfos = useCallback((settings: LfoSettings[], tempo: number) => {
+    lfos.current = { settings, tempo };
+    engine.current?.setLfos(settings, tempo);
+  }, []);
 
-    activeOscillators.current.set(midiNote, { oscillator: osc, gainNode });
+  // Voice limit and which voice gives way when it is reached
+  const setPolyphony = useCallback((settings: PolyphonySettings) => {
+    polyphony.current = settings;
+    engine.current?.setPolyphony(settings);
   }, []);
 
-  const stopNote = useCallback((midiNote: number, isGlobalSustainActive: boolean) => {
-    const noteData = activeOscillators.current.get(midiNote);
-    if (!audioContext.current || !noteData) {
-      return;
-    }
+  // Rebuild/retune the master effects chain; tempo is used by synced delays
+  const setEffects = useCallback((settings: EffectSettings[], tempo: number) => {
+    effects.current = { settings, tempo };
+    effectsRack.current?.setEffects(settings, tempo);
+  }, []);
 
-    const ctx = audioContext.current;
-    const { oscillator: osc, gainNode } = noteData;
-    const releaseTime = 0.15;
-    const sustainDecayTime = 0.8; // Decay time if sustaining
-
-    // Remove from active list
-    activeOscillators.current.delete(midiNote);
-
-    if (isGlobalSustainActive) {
-      // Move to sustained list and apply sustain decay
-      gainNode.gain.cancelScheduledValues(ctx.currentTime);
-      gainNode.gain.linearRampToValueAtTime(gainNode.gain.value * 0.4, ctx.currentTime + sustainDecayTime); // Slower decay
-      sustainedOscillators.current.set(midiNote, { oscillator: osc, gainNode });
-    } else {
-      // Normal release
-      gainNode.gain.cancelScheduledValues(ctx.currentTime);
-      gainNode.gain.setValueAtTime(gainNode.gain.value, ctx.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + releaseTime);
-
-      osc.stop(ctx.currentTime + releaseTime + 0.05); // Stop after release
-      setTimeout(() => {
-          osc.disconnect();
-          gainNode.disconnect();
-      }, (releaseTime + 0.1) * 1000);
-    }
+  // Optional `when` (AudioContext time) lets sequenced playback schedule notes ahead;
+  // take playback passes its own `source` so it never releases keys held live
+  const playNote = useCallback((midiNote: number, velocity: number = 1, when?: number, source?: NoteSource) => {
+    engine.current?.playNote(midiNote, velocity, when, source);
   }, []);
 
-  const releaseGlobalSustain = useCallback(() => {
-    if (!audioContext.current) return;
-    const ctx = audioContext.current;
-    const releaseTime = 0.2; // Faster release for global sustain off
+  // Whether the note rings on is up to the engine's pedal state
+  const stopNote = useCallback((midiNote: number, when?: number, source?: NoteSource) => {
+    engine.current?.stopNote(midiNote, when, source);
+  }, []);
 
-    sustainedOscillators.current.forEach(({ oscillator: osc, gainNode }) => {
-      gainNode.gain.cancelScheduledValues(ctx.currentTime);
-      gainNode.gain.setValueAtTime(gainNode.gain.value, ctx.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + releaseTime);
+  // Arpeggiator and sequencer notes, scheduled with their length and kept apart from held keys
+  const playTimedNote = useCallback((midiNote: number, velocity: number, when: number, duration: number) => {
+    engine.current?.playTimedNote(midiNote, velocity, when, duration);
+  }, []);
 
-      osc.stop(ctx.currentTime + releaseTime + 0.05);
-      setTimeout(() => {
-          osc.disconnect();
-          gainNode.disconnect();
-      }, (releaseTime + 0.1) * 1000);
-    });
-    sustainedOscillators.current.clear();
+  // Pedal depth 0-1; sustain is continuous (half-pedal), sostenuto and soft are on/off
+  const setPedal = useCallback((pedal: PedalType, value: number, when?: number) => {
+    engine.current?.setPedal(pedal, value, when);
   }, []);
 
   const enforceSilence = useCallback(() => {
-    if (!audioContext.current) return;
-    const ctx = audioContext.current;
-
-    // Stop all active oscillators
-    activeOscillators.current.forEach(({ oscillator, gainNode }) => {
-      try {
-        gainNode.gain.cancelScheduledValues(ctx.currentTime);
-        gainNode.gain.setValueAtTime(0, ctx.currentTime);
-        oscillator.stop();
-        oscillator.disconnect();
-        gainNode.disconnect();
-      } catch (e) {
-        console.warn("Error stopping active oscillator:", e);
-      }
-    });
-    activeOscillators.current.clear();
-
-    // Stop all sustained oscillators
-    sustainedOscillators.current.forEach(({ oscillator, gainNode }) => {
-      try {
-        gainNode.gain.cancelScheduledValues(ctx.currentTime);
-        gainNode.gain.setValueAtTime(0, ctx.currentTime);
-        oscillator.stop();
-        oscillator.disconnect();
-        gainNode.disconnect();
-      } catch (e) {
-        console.warn("Error stopping sustained oscillator:", e);
-      }
-    });
-    sustainedOscillators.current.clear();
+    engine.current?.silence();
   }, []);
 
-  return { playNote, stopNote, enforceSilence, audioContext, setMasterVolume, releaseGlobalSustain };
-};
\ No newline at end of file
+  return { playNote, stopNote, playTimedNote, enforceSilence, audioContext, analyser, setMasterVolume, setVoiceType, setPreset, setSampleSet, setStringModel, setTuning, setEnvelope, setFilter, setLfos, setEffects, setPolyphony, setPedal, voiceCount, sustainedNotes };
+};
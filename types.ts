@@ -1,6 +1,11 @@
-export interface OctaveRange {
-  start: number;
-  end: number;
+export interface KeyRange {
+  low: number; // MIDI note of the lowest key
+  high: number; // MIDI note of the highest key
+}
+
+export interface KeyboardSize {
+  keys: number;
+  range: KeyRange;
 }
 
 export interface KeyGeometry {
@@ -13,11 +18,314 @@ export interface KeyGeometryMap {
   [key: number]: KeyGeometry;
 }
 
-export interface KeyOffsetMap {
-  [code: string]: number | string;
+export interface KeyRect {
+  midi: number;
+  x: number; // SVG units
+  w: number;
+  isWhite: boolean;
+}
+
+export type ControlAction = 'OCTAVE_DOWN' | 'OCTAVE_UP' | 'SUSTAIN_TOGGLE' | 'SILENCE';
+
+export interface KeyBindingMap {
+  [code: string]: number; // KeyboardEvent.code -> semitone offset from middle C
+}
+
+export interface KeyboardLayout {
+  id: string;
+  name: string;
+  bindings: KeyBindingMap;
+  labels?: { [code: string]: string }; // Printed key caps where they differ from US QWERTY
 }
 
+export interface OscillatorLayer {
+  waveform: OscillatorType; // 'custom' uses the harmonics below
+  harmonics?: number[]; // Partial amplitudes for custom waveforms, fundamental first
+  detune: number; // Cents
+  octave: number; // Octave shift relative to the played note
+  level: number; // Mix level (0-1), normalised against the other layers
+}
+
+export interface SynthPreset {
+  id: string;
+  name: string;
+  oscillators: OscillatorLayer[];
+}
+
+export interface EnvelopeSettings {
+  attack: number; // Seconds from silence to peak
+  decay: number; // Seconds from peak down to the sustain level
+  sustain: number; // Level held while the note is down (0-1, relative to peak)
+  release: number; // Seconds to fade out once the note is let go
+}
+
+// Nodes for one sounding note, whatever produces the sound (oscillators, samples...)
+export interface VoiceGraph {
+  sources: AudioScheduledSourceNode[]; // Started with the note; the voice is finished when the first one ends
+  nodes: AudioNode[]; // Mixing and tone shaping between the sources and the output
+  output: GainNode; // Amplitude envelope for the whole voice
+  damping?: AudioParam; // Physically modelled voices: string damping 0-1
+  detune?: AudioParam[]; // Pitch offsets in cents for vibrato; absent where pitch can't be bent
+}
+
+export type VoiceType = 'synth' | 'sampler' | 'string';
+
+export interface StringModelSettings {
+  stiffness: number; // 0-1, inharmonicity of the string
+  damping: number; // 0-1, how quickly a struck string dies away
+}
+
+// One sample in a sample set, played back across a key and velocity range
+export interface SampleZone {
+  buffer: AudioBuffer;
+  rootNote: number; // MIDI note the sample was recorded at
+  lowNote: number;
+  highNote: number;
+  lowVelocity: number; // 0-1
+  highVelocity: number; // 0-1
+  loopStart?: number; // Seconds; looping is enabled when both loop points are set
+  loopEnd?: number;
+}
+
+export interface SampleSet {
+  id: string;
+  name: string;
+  zones: SampleZone[];
+}
+
+export type VelocityCurve = 'linear' | 'soft' | 'hard';
+
+// Who holds a key down: the player, or a take being played back. Each holds its own
+// keys, so an overdub's note-offs never cut off what is played live, or the reverse.
+export type NoteSource = 'live' | 'playback';
+
 export interface ActiveNoteData {
-  oscillator: OscillatorNode;
-  gainNode: GainNode;
-}
\ No newline at end of file
+  midi: number;
+  voice: VoiceGraph;
+  startTime: number; // AudioContext time of note-on
+  peak: number; // Envelope peak gain
+  envelope: EnvelopeSettings; // Envelope the note was started with
+  release: { time: number; level: number; duration: number } | null; // Set once the release stage starts
+  filter: FilterEnvelopeState | null; // Per-voice filter, when the filter section is on
+  detachModulation: () => void; // Disconnects the global LFOs from this voice
+}
+
+// Filter envelope of one note, applied in cents to the filter's detune
+export interface FilterEnvelopeState {
+  detune: AudioParam;
+  envelope: EnvelopeSettings;
+  amount: number; // Cents at the envelope's peak
+  startTime: number;
+}
+
+export type VoiceStealingMode = 'oldest' | 'quietest' | 'protect-lowest';
+
+export interface PolyphonySettings {
+  maxVoices: number;
+  stealing: VoiceStealingMode;
+}
+
+export interface MidiInputInfo {
+  id: string;
+  name: string;
+  manufacturer: string;
+}
+
+export type MidiMessage =
+  | { type: 'noteOn'; channel: number; note: number; velocity: number }
+  | { type: 'noteOff'; channel: number; note: number }
+  | { type: 'controlChange'; channel: number; controller: number; value: number };
+
+
+export type PedalType = 'sustain' | 'sostenuto' | 'soft';
+
+export type PedalState = { [P in PedalType]: number }; // Depth 0 (up) - 1 (fully down)
+
+export type PerformanceEvent =
+  | { type: 'noteOn'; time: number; midi: number; velocity: number } // velocity 0-1
+  | { type: 'noteOff'; time: number; midi: number }
+  | { type: 'pedal'; time: number; pedal: PedalType; value: number }; // pedal depth 0-1
+
+export interface Take {
+  id: string;
+  name: string;
+  events: PerformanceEvent[]; // Sorted, times in seconds from the start of the take
+  duration: number;
+}
+
+export type RecorderStatus = 'idle' | 'recording' | 'playing' | 'overdubbing';
+
+export type MidiFileFormat = 0 | 1;
+
+export interface DecodedMidiFile {
+  format: number;
+  bpm: number; // Initial tempo
+  tracks: PerformanceEvent[][]; // Per-track events, times in seconds
+  events: PerformanceEvent[]; // All tracks merged in time order
+  duration: number;
+}
+
+// Master effects rack. Settings are plain data so the offline renderer can rebuild the same chain.
+interface EffectBase {
+  id: string;
+  bypass: boolean;
+  mix: number; // 0 (dry) - 1 (wet)
+}
+
+export interface ReverbSettings extends EffectBase {
+  type: 'reverb';
+  decay: number; // Seconds to fall by 60dB
+  preDelay: number; // Seconds
+}
+
+export interface DelaySettings extends EffectBase {
+  type: 'delay';
+  time: number; // Seconds, used when not synced
+  sync: boolean;
+  division: number; // Beats, used when synced to the tempo
+  feedback: number; // 0-0.9
+}
+
+export interface ChorusSettings extends EffectBase {
+  type: 'chorus';
+  rate: number; // Hz
+  depth: number; // Seconds of delay modulation
+}
+
+export interface EqSettings extends EffectBase {
+  type: 'eq';
+  low: number; // dB
+  mid: number; // dB
+  high: number; // dB
+}
+
+export interface LimiterSettings extends EffectBase {
+  type: 'limiter';
+  threshold: number; // dB
+  release: number; // Seconds
+}
+
+export type EffectSettings = ReverbSettings | DelaySettings | ChorusSettings | EqSettings | LimiterSettings;
+export type EffectType = EffectSettings['type'];
+
+// Scala (.scl) scale: pitches of degrees 1..n in cents above degree 0; the last is the period
+export interface ScalaScale {
+  description: string;
+  cents: number[];
+}
+
+// Scala keyboard mapping (.kbm): which scale degree each MIDI key plays
+export interface KeyboardMapping {
+  size: number; // Keys in one repetition of the mapping; 0 = every key is the next degree
+  firstNote: number;
+  lastNote: number;
+  middleNote: number; // Key that plays degree 0
+  referenceNote: number;
+  referenceFrequency: number;
+  octaveDegree: number; // Degree that counts as the formal octave; 0 = the scale's size
+  mapping: (number | null)[]; // Degree per key within the repetition; null = unmapped
+}
+
+export interface TuningSettings {
+  temperament: string; // Built-in temperament id, or 'scala' for an imported scale
+  rootNote: number; // Pitch class (0 = C) the temperament is built on
+  referencePitch: number; // Hz of A4
+  scale: ScalaScale | null;
+  keyboardMapping: KeyboardMapping | null;
+}
+
+export type NoteNaming = 'letter' | 'solfege' | 'german';
+
+export interface KeySignature {
+  id: string;
+  name: string;
+  tonic: number; // Pitch class of the major tonic
+  tonicLetter: number; // Letter of the tonic, 0 = C ... 6 = B
+  accidentals: number; // Sharps (positive) or flats (negative) in the signature
+}
+
+export type KeyHighlight = 'root' | 'member';
+
+// Teaching guide tinted over the keys
+export interface KeyOverlay {
+  mode: 'off' | 'scale' | 'chord';
+  root: number; // Pitch class
+  scaleId: string;
+  chordSymbol: string;
+  lockToScale: boolean; // Computer-key notes outside the guide snap to the nearest member
+}
+
+export interface MetronomeSettings {
+  beatsPerBar: number;
+  beatUnit: number; // Note value of one beat: 4 = quarter, 8 = eighth
+  accents: boolean[]; // Per beat of the bar
+  subdivision: number; // Clicks per beat
+  volume: number; // 0-1
+  countInBars: number; // Bars counted in before recording; 0 = off
+}
+
+export type Hand = 'both' | 'left' | 'right';
+
+export interface PracticeOptions {
+  hand: Hand; // Notes below the split point are the left hand's
+  splitPoint: number; // MIDI note
+  waitForNotes: boolean; // Pause until the expected keys are played
+  section: { start: number; end: number } | null; // Seconds into the take; null = all of it
+  loop: boolean; // Start the section again after each pass
+}
+
+export interface PracticeSummary {
+  hits: number;
+  misses: number;
+  wrongNotes: number; // Keys played that weren't expected
+  averageEarlyMs: number | null;
+  averageLateMs: number | null;
+  accuracy: number; // 0-1, hits against everything expected or played wrongly
+}
+
+export type ArpPattern = 'up' | 'down' | 'up-down' | 'random' | 'as-played';
+
+export interface ArpeggiatorSettings {
+  enabled: boolean; // Held keys are arpeggiated instead of sounding directly
+  pattern: ArpPattern;
+  octaves: number; // 1-4
+  rate: number; // Beats per step
+  gate: number; // 0-1, fraction of the step each note sounds for
+  swing: number; // 0-0.5, fraction of a step every second step is pushed late
+}
+
+export interface SequencerStep {
+  notes: number[]; // Empty for a rest
+  velocity: number; // 0-1
+}
+
+export interface SequencerSettings {
+  length: number; // Steps played before the pattern loops, 1-16
+  rate: number; // Beats per step
+  gate: number; // 0-1
+  swing: number; // 0-0.5
+}
+
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass';
+
+export interface FilterSettings {
+  enabled: boolean;
+  type: FilterType;
+  cutoff: number; // Hz at middle C, before the envelope
+  resonance: number; // Q
+  envelope: EnvelopeSettings; // Sustain is relative to the envelope amount
+  envelopeAmount: number; // Octaves the envelope's peak moves the cutoff, -4 to 4
+  keyTracking: number; // 0-1: 1 moves the cutoff an octave per octave played
+}
+
+export type LfoTarget = 'pitch' | 'cutoff' | 'amplitude';
+
+export interface LfoSettings {
+  target: LfoTarget;
+  enabled: boolean;
+  waveform: 'sine' | 'triangle' | 'square' | 'sawtooth';
+  rate: number; // Hz, used when not synced
+  sync: boolean;
+  division: number; // Beats per cycle, used when synced to the tempo
+  depth: number; // Pitch: cents; cutoff: octaves; amplitude: 0-1
+}
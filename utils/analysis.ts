@@ -0,0 +1,56 @@
+// Pure helpers for drawing the output analyser: frequency axis, scope trigger and levels
+
+export const ANALYSER_FFT_SIZE = 4096;
+export const MIN_FREQUENCY = 20; // Hz, left edge of the spectrum
+export const MAX_FREQUENCY = 20000; // Hz, right edge
+export const MIN_DECIBELS = -90; // Bottom of the spectrum and meter
+export const CLIP_HOLD = 1.5; // Seconds the clip light stays on
+export const PEAK_FALL = 20; // dB per second the peak-hold marker falls
+
+// Frequencies labelled along the spectrum
+export const FREQUENCY_MARKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+// Position 0-1 of a frequency on the logarithmic axis
+export const getFrequencyPosition = (frequency: number) => {
+  return Math.log(frequency / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY);
+};
+
+export const formatFrequency = (frequency: number) => {
+  return frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+};
+
+// Index of the first rising zero crossing, so the scope holds a steady waveform.
+// Searches the first half so a full window is left to draw after it; 0 if none is found.
+export const findTriggerIndex = (samples: Float32Array) => {
+  const end = samples.length >> 1;
+  for (let i = 1; i < end; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) return i;
+  }
+  return 0;
+};
+
+export interface SignalLevels {
+  peak: number; // Largest absolute sample
+  rms: number;
+}
+
+export const getSignalLevels = (samples: Float32Array): SignalLevels => {
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+    sum += value * value;
+  }
+  return { peak, rms: Math.sqrt(sum / samples.length) };
+};
+
+// Linear amplitude to dBFS, floored at the meter's bottom
+export const toDecibels = (amplitude: number) => {
+  return amplitude > 0 ? Math.max(MIN_DECIBELS, 20 * Math.log10(amplitude)) : MIN_DECIBELS;
+};
+
+// Position 0-1 of a level on the meter
+export const getMeterPosition = (decibels: number) => {
+  return Math.min(1, Math.max(0, (decibels - MIN_DECIBELS) / -MIN_DECIBELS));
+};
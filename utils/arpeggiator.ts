@@ -0,0 +1,120 @@
+import { ArpeggiatorSettings, ArpPattern } from '../types';
+import { createStepClock } from './scheduler';
+import { MAX_MIDI } from './constants';
+
+export const DEFAULT_ARPEGGIATOR: ArpeggiatorSettings = {
+  enabled: false,
+  pattern: 'up',
+  octaves: 1,
+  rate: 0.25,
+  gate: 0.6,
+  swing: 0,
+};
+
+export const ARP_PATTERNS: { id: ArpPattern; label: string }[] = [
+  { id: 'up', label: 'Up' },
+  { id: 'down', label: 'Down' },
+  { id: 'up-down', label: 'Up-Down' },
+  { id: 'random', label: 'Random' },
+  { id: 'as-played', label: 'As Played' },
+];
+
+// Tempo-synced step lengths, in beats
+export const STEP_RATES: { label: string; beats: number }[] = [
+  { label: '1/4', beats: 1 },
+  { label: '1/8', beats: 0.5 },
+  { label: '1/8T', beats: 1 / 3 },
+  { label: '1/16', beats: 0.25 },
+  { label: '1/16T', beats: 1 / 6 },
+  { label: '1/32', beats: 0.125 },
+];
+
+export interface ArpNote {
+  midi: number;
+  velocity: number; // 0-1, from the held key the note came from
+}
+
+// One cycle of the arpeggio for the held keys, given in the order they were pressed.
+// Random draws from the rising order at play time, so it returns that.
+export const getArpNotes = (held: ArpNote[], pattern: ArpPattern, octaves: number): ArpNote[] => {
+  const ordered = pattern === 'as-played' ? held : [...held].sort((a, b) => a.midi - b.midi);
+  const notes: ArpNote[] = [];
+  for (let octave = 0; octave < octaves; octave++) {
+    ordered.forEach(({ midi, velocity }) => {
+      const note = midi + octave * 12;
+      if (note <= MAX_MIDI) notes.push({ midi: note, velocity });
+    });
+  }
+
+  if (pattern === 'down') return notes.reverse();
+  if (pattern === 'up-down' && notes.length > 2) {
+    // Down again without repeating the top and bottom notes
+    return [...notes, ...notes.slice(1, -1).reverse()];
+  }
+  return notes;
+};
+
+interface ArpOutput {
+  playNote: (midi: number, velocity: number, when: number, duration: number) => void;
+}
+
+export interface Arpeggiator {
+  noteOn: (midi: number, velocity: number) => void;
+  noteOff: (midi: number) => void;
+  clear: () => void; // Let go of every held key
+  setSettings: (settings: ArpeggiatorSettings) => void;
+  setTempo: (tempo: number) => void;
+}
+
+// Delay before the first step so it isn't scheduled late
+const START_OFFSET = 0.02;
+
+// Plays the held keys one at a time, scheduled ahead on the audio clock.
+// Runs while any key is held and stops when the last one is let go.
+export const createArpeggiator = (ctx: BaseAudioContext, output: ArpOutput): Arpeggiator => {
+  let settings = DEFAULT_ARPEGGIATOR;
+  let tempo = 120;
+  const held = new Map<number, number>(); // MIDI -> velocity, in the order pressed
+  let position = 0; // Step through the current cycle
+
+  const clock = createStepClock(ctx, (_step, time, length) => {
+    const heldNotes = Array.from(held, ([midi, velocity]) => ({ midi, velocity }));
+    const notes = getArpNotes(heldNotes, settings.pattern, settings.octaves);
+    if (notes.length === 0) return;
+    const note = settings.pattern === 'random'
+      ? notes[Math.floor(Math.random() * notes.length)]
+      : notes[position % notes.length];
+    position++;
+
+    output.playNote(note.midi, note.velocity, time, Math.max(0.01, length * settings.gate));
+  });
+
+  const updateTiming = () => clock.setTiming({ tempo, rate: settings.rate, swing: settings.swing });
+
+  return {
+    noteOn: (midi, velocity) => {
+      held.delete(midi);
+      held.set(midi, velocity);
+      if (!clock.isRunning()) {
+        position = 0;
+        clock.start(ctx.currentTime + START_OFFSET);
+      }
+    },
+    noteOff: (midi) => {
+      held.delete(midi);
+      if (held.size === 0) clock.stop();
+    },
+    clear: () => {
+      held.clear();
+      clock.stop();
+    },
+    setSettings: (next) => {
+      settings = next;
+      updateTiming();
+    },
+    setTempo: (next) => {
+      tempo = next;
+      updateTiming();
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { detectChord, formatChordSymbol, formatInversion } from './chords';
+import { NOTE_NAMES } from './constants';
+
+const name = (notes: number[]) => {
+  const chord = detectChord(notes);
+  return chord ? formatChordSymbol(chord, NOTE_NAMES) : null;
+};
+
+describe('detectChord', () => {
+  it('names triads in root position', () => {
+    expect(name([60, 64, 67])).toBe('C');
+    expect(name([57, 60, 64])).toBe('Am');
+    expect(name([59, 62, 65])).toBe('Bdim');
+    expect(name([60, 64, 68])).toBe('Caug');
+    expect(name([62, 67, 69])).toBe('Dsus4');
+    expect(name([62, 64, 69])).toBe('Dsus2');
+    expect(name([40, 47])).toBe('E5');
+  });
+
+  it('names sevenths, with or without the fifth', () => {
+    expect(name([55, 59, 62, 65])).toBe('G7');
+    expect(name([60, 64, 67, 71])).toBe('Cmaj7');
+    expect(name([62, 65, 69, 72])).toBe('Dm7');
+    expect(name([59, 62, 65, 69])).toBe('Bm7♭5');
+    expect(name([59, 62, 65, 68])).toBe('Bdim7');
+    expect(name([55, 59, 65])).toBe('G7');
+  });
+
+  it('names extended chords', () => {
+    expect(name([60, 64, 67, 74])).toBe('Cadd9');
+    expect(name([60, 64, 67, 70, 74])).toBe('C9');
+    expect(name([60, 64, 67, 71, 74])).toBe('Cmaj9');
+    expect(name([57, 60, 64, 67, 71])).toBe('Am9');
+    expect(name([60, 64, 67, 69, 74])).toBe('C6/9');
+    expect(name([55, 59, 65, 69, 76])).toBe('G13');
+    expect(name([62, 72, 74, 79, 76, 81])).toBe('D9sus4');
+  });
+
+  it('reports inversions with the bass after a slash', () => {
+    const first = detectChord([64, 67, 72])!;
+    expect(formatChordSymbol(first, NOTE_NAMES)).toBe('C/E');
+    expect(formatInversion(first)).toBe('1st inversion');
+
+    const second = detectChord([67, 72, 76])!;
+    expect(formatChordSymbol(second, NOTE_NAMES)).toBe('C/G');
+    expect(formatInversion(second)).toBe('2nd inversion');
+
+    const third = detectChord([65, 67, 71, 74])!;
+    expect(formatChordSymbol(third, NOTE_NAMES)).toBe('G7/F');
+    expect(formatInversion(third)).toBe('3rd inversion');
+    expect(name([43, 57, 60, 64])).toBe('Am7/G');
+  });
+
+  it('names a triad over a foreign bass as a slash chord', () => {
+    const chord = detectChord([50, 60, 64, 67])!;
+    expect(formatChordSymbol(chord, NOTE_NAMES)).toBe('C/D');
+    expect(formatInversion(chord)).toBe('slash chord');
+    expect(chord.root).toBe(0);
+    expect(chord.bass).toBe(2);
+
+    expect(name([48, 58, 62, 65])).toBe('A#/C');
+  });
+
+  it('keeps a seventh without its fifth rather than splitting off a power chord', () => {
+    expect(name([45, 60, 67])).toBe('Am7');
+  });
+
+  it('returns null for single notes and note sets that are not chords', () => {
+    expect(detectChord([])).toBeNull();
+    expect(detectChord([60])).toBeNull();
+    expect(detectChord([60, 72])).toBeNull();
+    expect(detectChord([60, 61, 62])).toBeNull();
+  });
+});
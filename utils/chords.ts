@@ -0,0 +1,178 @@
+// Chord recognition from a set of sounding MIDI notes. Pure functions only, so the
+// same analysis can run on live input, recorded takes or anything else.
+
+interface ChordTemplate {
+  symbol: string; // Appended to the root name, e.g. "m7"
+  name: string;
+  tones: [number, string][]; // Semitones above the root and degree names, stacked in thirds
+  optional?: number[]; // Tones that may be left out
+}
+
+export interface ChordTone {
+  pitchClass: number;
+  semitones: number; // Above the root
+  degree: string; // R, 3, ♭7, 9...
+}
+
+export interface Chord {
+  root: number; // Pitch class
+  bass: number; // Pitch class of the lowest note
+  symbol: string;
+  name: string;
+  tones: ChordTone[]; // Tones present, stacked from the root
+  inversion: number; // 0 = root position; which chord tone is in the bass
+  isSlash: boolean; // The bass isn't a chord tone (e.g. C/D)
+}
+
+// Earlier entries win when two readings are equally good, so simpler chords come first
+const CHORD_TEMPLATES: ChordTemplate[] = [
+  { symbol: '', name: 'major', tones: [[0, 'R'], [4, '3'], [7, '5']] },
+  { symbol: 'm', name: 'minor', tones: [[0, 'R'], [3, '♭3'], [7, '5']] },
+  { symbol: 'dim', name: 'diminished', tones: [[0, 'R'], [3, '♭3'], [6, '♭5']] },
+  { symbol: 'aug', name: 'augmented', tones: [[0, 'R'], [4, '3'], [8, '♯5']] },
+  { symbol: 'sus4', name: 'suspended fourth', tones: [[0, 'R'], [5, '4'], [7, '5']] },
+  { symbol: 'sus2', name: 'suspended second', tones: [[0, 'R'], [2, '2'], [7, '5']] },
+  { symbol: '5', name: 'power chord', tones: [[0, 'R'], [7, '5']] },
+  { symbol: '7', name: 'dominant seventh', tones: [[0, 'R'], [4, '3'], [7, '5'], [10, '♭7']] },
+  { symbol: 'maj7', name: 'major seventh', tones: [[0, 'R'], [4, '3'], [7, '5'], [11, '7']] },
+  { symbol: 'm7', name: 'minor seventh', tones: [[0, 'R'], [3, '♭3'], [7, '5'], [10, '♭7']] },
+  { symbol: 'm7♭5', name: 'half-diminished seventh', tones: [[0, 'R'], [3, '♭3'], [6, '♭5'], [10, '♭7']] },
+  { symbol: 'dim7', name: 'diminished seventh', tones: [[0, 'R'], [3, '♭3'], [6, '♭5'], [9, '𝄫7']] },
+  { symbol: 'm(maj7)', name: 'minor-major seventh', tones: [[0, 'R'], [3, '♭3'], [7, '5'], [11, '7']] },
+  { symbol: '7♯5', name: 'augmented seventh', tones: [[0, 'R'], [4, '3'], [8, '♯5'], [10, '♭7']] },
+  { symbol: 'maj7♯5', name: 'augmented major seventh', tones: [[0, 'R'], [4, '3'], [8, '♯5'], [11, '7']] },
+  { symbol: '7sus4', name: 'dominant seventh suspended fourth', tones: [[0, 'R'], [5, '4'], [7, '5'], [10, '♭7']] },
+  { symbol: '6', name: 'major sixth', tones: [[0, 'R'], [4, '3'], [7, '5'], [9, '6']] },
+  { symbol: 'm6', name: 'minor sixth', tones: [[0, 'R'], [3, '♭3'], [7, '5'], [9, '6']] },
+  { symbol: 'add9', name: 'added ninth', tones: [[0, 'R'], [4, '3'], [7, '5'], [2, '9']] },
+  { symbol: 'm(add9)', name: 'minor added ninth', tones: [[0, 'R'], [3, '♭3'], [7, '5'], [2, '9']] },
+  { symbol: '6/9', name: 'six-nine', tones: [[0, 'R'], [4, '3'], [7, '5'], [9, '6'], [2, '9']] },
+  { symbol: '9', name: 'dominant ninth', tones: [[0, 'R'], [4, '3'], [7, '5'], [10, '♭7'], [2, '9']] },
+  { symbol: 'maj9', name: 'major ninth', tones: [[0, 'R'], [4, '3'], [7, '5'], [11, '7'], [2, '9']] },
+  { symbol: 'm9', name: 'minor ninth', tones: [[0, 'R'], [3, '♭3'], [7, '5'], [10, '♭7'], [2, '9']] },
+  { symbol: '7♭9', name: 'dominant seventh flat ninth', tones: [[0, 'R'], [4, '3'], [7, '5'], [10, '♭7'], [1, '♭9']] },
+  { symbol: '7♯9', name: 'dominant seventh sharp ninth', tones: [[0, 'R'], [4, '3'], [7, '5'], [10, '♭7'], [3, '♯9']] },
+  { symbol: '9sus4', name: 'ninth suspended fourth', tones: [[0, 'R'], [5, '4'], [7, '5'], [10, '♭7'], [2, '9']] },
+  { symbol: '7♯11', name: 'dominant seventh sharp eleventh', tones: [[0, 'R'], [4, '3'], [7, '5'], [10, '♭7'], [6, '♯11']] },
+  { symbol: 'maj7♯11', name: 'major seventh sharp eleventh', tones: [[0, 'R'], [4, '3'], [7, '5'], [11, '7'], [6, '♯11']] },
+  { symbol: '11', name: 'dominant eleventh', tones: [[0, 'R'], [4, '3'], [7, '5'], [10, '♭7'], [2, '9'], [5, '11']], optional: [4] },
+  { symbol: 'm11', name: 'minor eleventh', tones: [[0, 'R'], [3, '♭3'], [7, '5'], [10, '♭7'], [2, '9'], [5, '11']], optional: [2] },
+  { symbol: '13', name: 'dominant thirteenth', tones: [[0, 'R'], [4, '3'], [7, '5'], [10, '♭7'], [2, '9'], [9, '13']], optional: [2] },
+  { symbol: 'maj13', name: 'major thirteenth', tones: [[0, 'R'], [4, '3'], [7, '5'], [11, '7'], [2, '9'], [9, '13']], optional: [2] },
+  { symbol: 'm13', name: 'minor thirteenth', tones: [[0, 'R'], [3, '♭3'], [7, '5'], [10, '♭7'], [2, '9'], [9, '13']], optional: [2] },
+];
+
+// Chord types by symbol, for picking a chord to show on the keys
+export const CHORD_SHAPES = CHORD_TEMPLATES.map(({ symbol, name, tones }) => ({
+  symbol,
+  name,
+  intervals: tones.map(([semitones]) => semitones),
+}));
+
+// Generic interval names above the bass, for note sets that aren't a known chord
+const INTERVAL_NAMES = [
+  'unison', 'minor 2nd', 'major 2nd', 'minor 3rd', 'major 3rd', 'perfect 4th',
+  'tritone', 'perfect 5th', 'minor 6th', 'major 6th', 'minor 7th', 'major 7th',
+];
+
+export const getIntervalName = (semitones: number) => {
+  const simple = INTERVAL_NAMES[((semitones % 12) + 12) % 12];
+  return semitones >= 12 && semitones % 12 === 0 ? 'octave' : simple;
+};
+
+// The perfect fifth adds little colour, so any chord of four or more tones may drop it
+const isOptionalTone = (template: ChordTemplate, semitones: number) => {
+  return template.optional?.includes(semitones) || (semitones === 7 && template.tones.length >= 4);
+};
+
+interface Match {
+  template: ChordTemplate;
+  index: number;
+  omitted: number; // Optional tones left out
+}
+
+// Best template for the pitch classes heard above a given root, if any fits exactly
+const matchTemplate = (intervals: Set<number>): Match | null => {
+  let best: Match | null = null;
+  for (const [index, template] of CHORD_TEMPLATES.entries()) {
+    const semitones = template.tones.map(([tone]) => tone);
+    if (!Array.from(intervals).every(interval => semitones.includes(interval))) continue;
+    const missing = semitones.filter(tone => !intervals.has(tone));
+    if (!missing.every(tone => isOptionalTone(template, tone))) continue;
+
+    if (!best || missing.length < best.omitted) {
+      best = { template, index, omitted: missing.length };
+    }
+  }
+  return best;
+};
+
+const buildChord = (root: number, bass: number, template: ChordTemplate, pitchClasses: Set<number>, isSlash: boolean): Chord => {
+  const tones = template.tones
+    .map(([semitones, degree]) => ({ pitchClass: (root + semitones) % 12, semitones, degree }))
+    .filter(tone => pitchClasses.has(tone.pitchClass));
+  const bassIndex = tones.findIndex(tone => tone.pitchClass === bass);
+  return {
+    root,
+    bass,
+    symbol: template.symbol,
+    name: template.name,
+    tones,
+    inversion: isSlash ? 0 : Math.max(0, bassIndex),
+    isSlash,
+  };
+};
+
+// Try every pitch class as the root; root position beats inversions, then fewer omitted tones, then simpler chords
+const findChord = (pitchClasses: Set<number>, bass: number, isSlash: boolean): { chord: Chord; omitted: number } | null => {
+  let best: { root: number; match: Match; score: number } | null = null;
+  for (const root of pitchClasses) {
+    const intervals = new Set(Array.from(pitchClasses, pitchClass => (pitchClass - root + 12) % 12));
+    const match = matchTemplate(intervals);
+    if (!match) continue;
+    const score = (root === bass ? 0 : 1000) + match.omitted * 100 + match.index;
+    if (!best || score < best.score) best = { root, match, score };
+  }
+  if (!best) return null;
+  return { chord: buildChord(best.root, bass, best.match.template, pitchClasses, isSlash), omitted: best.match.omitted };
+};
+
+// A bass note foreign to the chord above it makes a slash chord, e.g. C/D
+const findSlashChord = (sorted: number[], bass: number): { chord: Chord; omitted: number } | null => {
+  if (sorted.slice(1).some(midi => midi % 12 === bass)) return null;
+  const upper = new Set(sorted.slice(1).map(midi => midi % 12));
+  if (upper.size < 2) return null;
+  const upperChord = findChord(upper, sorted[1] % 12, true);
+  return upperChord ? { ...upperChord, chord: { ...upperChord.chord, bass } } : null;
+};
+
+// Name the chord formed by a set of MIDI notes, or null if they don't make one
+export const detectChord = (notes: Iterable<number>): Chord | null => {
+  const sorted = Array.from(new Set(notes)).sort((a, b) => a - b);
+  if (sorted.length < 2) return null;
+
+  const bass = sorted[0] % 12;
+  const pitchClasses = new Set(sorted.map(midi => midi % 12));
+  const full = findChord(pitchClasses, bass, false);
+  const slash = findSlashChord(sorted, bass);
+
+  // A complete triad or seventh over the bass reads better than an extended
+  // chord with tones missing: D C E G is C/D, not D9sus4 without its fifth
+  if (full && (full.omitted === 0 || !slash || slash.omitted > 0 || slash.chord.tones.length < 3)) {
+    return full.chord;
+  }
+  return slash ? slash.chord : null;
+};
+
+// Chord symbol with the bass after a slash when it isn't the root, e.g. "Am7/G"
+export const formatChordSymbol = (chord: Chord, pitchClassNames: string[]) => {
+  const symbol = pitchClassNames[chord.root] + chord.symbol;
+  return chord.bass === chord.root ? symbol : `${symbol}/${pitchClassNames[chord.bass]}`;
+};
+
+const ORDINALS = ['root position', '1st inversion', '2nd inversion', '3rd inversion'];
+
+export const formatInversion = (chord: Chord) => {
+  if (chord.isSlash) return 'slash chord';
+  return ORDINALS[chord.inversion] ?? `${chord.inversion}th inversion`;
+};
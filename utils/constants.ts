@@ -1,4 +1,4 @@
-import { KeyGeometryMap, KeyOffsetMap } from '../types';
+import { ControlAction, KeyGeometryMap, KeyboardSize } from '../types';
 
 // Standard piano geometry: 7 white keys per octave
 // We define x and w as fractions of a single octave width (0 to 1)
@@ -38,36 +38,33 @@ export const KEY_GEOMETRY: KeyGeometryMap = {
   10: { w: BLACK_KEY_WIDTH, x: (6/7) - (BLACK_KEY_WIDTH / 2), isWhite: false },
 };
 
-// Default PC Keyboard mapping
-export const KEY_TO_OFFSET: KeyOffsetMap = {
-  // Bottom row (C3 to C5 approx)
-  'KeyZ': -9, 'KeyS': -8, 'KeyX': -7, 'KeyD': -5, 'KeyC': -6, 'KeyF': -5, 
-  'KeyV': -4, 'KeyG': -3, 'KeyB': -2, 'KeyH': -1, 'KeyN': 0, 'KeyJ': 2, 
-  'KeyM': 1, 'Comma': 3, 'KeyL': 4, 'Period': 5,
-  
-  // Top row (C4 to C6 approx)
-  'KeyQ': 3, 'Digit2': 4, 'KeyW': 5, 'Digit3': 6, 'KeyE': 7, 'Digit4': 8, 
-  'KeyR': 9, 'Digit5': 10, 'KeyT': 11, 'Digit6': 12, 'KeyY': 13, 'Digit7': 14, 
-  'KeyU': 15, 'Digit8': 16, 'KeyI': 17, 'Digit9': 18, 'KeyO': 19, 'Digit0': 20, 
-  'KeyP': 21, 'Minus': 22,
+// Playable MIDI range: a full 88-key piano, A0 to C8
+export const MIN_MIDI = 21;
+export const MAX_MIDI = 108;
+
+// Common controller and piano sizes. Ranges follow the usual hardware, so the
+// 76- and 88-key layouts begin and end part way through an octave.
+export const KEYBOARD_SIZES: KeyboardSize[] = [
+  { keys: 25, range: { low: 48, high: 72 } }, // C3 - C5
+  { keys: 37, range: { low: 48, high: 84 } }, // C3 - C6
+  { keys: 49, range: { low: 36, high: 84 } }, // C2 - C6
+  { keys: 61, range: { low: 36, high: 96 } }, // C2 - C7
+  { keys: 76, range: { low: 28, high: 103 } }, // E1 - G7
+  { keys: 88, range: { low: MIN_MIDI, high: MAX_MIDI } }, // A0 - C8
+];
+
+export const DEFAULT_KEYBOARD_SIZE = 61;
 
-  // Control Keys
+// Zooming stops once this many white keys (two octaves) fill the view
+export const MIN_VISIBLE_WHITE_KEYS = 14;
+
+// Computer keys with fixed functions; these can't be rebound to notes.
+// Note keys live in the selectable layouts (see keyboardLayouts.ts).
+export const CONTROL_KEYS: { [code: string]: ControlAction } = {
   'ArrowLeft': 'OCTAVE_DOWN',
   'ArrowRight': 'OCTAVE_UP',
   'CapsLock': 'SUSTAIN_TOGGLE', // Changed to TOGGLE for clarity
   'Space': 'SILENCE',
 };
 
-// Generate reverse map for labels
-export const OFFSET_TO_LABEL: {[key: number]: string} = {};
-Object.entries(KEY_TO_OFFSET).forEach(([code, offset]) => {
-  if (typeof offset === 'number') {
-    let label = code.replace('Key', '').replace('Digit', '');
-    if (code === 'Comma') label = ',';
-    if (code === 'Period') label = '.';
-    if (code === 'Minus') label = '-';
-    OFFSET_TO_LABEL[offset] = label;
-  }
-});
-
 export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
\ No newline at end of file
@@ -0,0 +1,18 @@
+// Offer a generated file to the user through a temporary object URL
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Turn a take name into something safe to use as a file name
+export const toFileName = (name: string, extension: string) => {
+  const base = name.trim().replace(/[^a-z0-9-_ ]+/gi, '').replace(/\s+/g, '-').toLowerCase() || 'performance';
+  return `${base}.${extension}`;
+};
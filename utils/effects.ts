@@ -0,0 +1,338 @@
+import { ChorusSettings, DelaySettings, EffectSettings, EffectType, EqSettings, LimiterSettings, ReverbSettings } from '../types';
+
+// Master effects rack inserted between the master gain and the destination.
+// Like the synth engine it only needs a BaseAudioContext, so offline rendering
+// builds exactly the same chain from the same settings.
+
+export const DEFAULT_TEMPO = 120;
+
+export const DEFAULT_EFFECTS: EffectSettings[] = [
+  { id: 'eq', type: 'eq', bypass: true, mix: 1, low: 0, mid: 0, high: 0 },
+  { id: 'chorus', type: 'chorus', bypass: true, mix: 0.5, rate: 0.8, depth: 0.003 },
+  { id: 'delay', type: 'delay', bypass: true, mix: 0.25, time: 0.35, sync: true, division: 0.75, feedback: 0.35 },
+  { id: 'reverb', type: 'reverb', bypass: true, mix: 0.3, decay: 2.2, preDelay: 0.02 },
+  { id: 'limiter', type: 'limiter', bypass: false, mix: 1, threshold: -3, release: 0.1 },
+];
+
+export const EFFECT_NAMES: { [T in EffectType]: string } = {
+  reverb: 'Reverb',
+  delay: 'Delay',
+  chorus: 'Chorus',
+  eq: 'EQ',
+  limiter: 'Limiter',
+};
+
+// Tempo-synced delay lengths, in beats
+export const DELAY_DIVISIONS: { label: string; beats: number }[] = [
+  { label: '1/2', beats: 2 },
+  { label: '1/4', beats: 1 },
+  { label: '1/4T', beats: 2 / 3 },
+  { label: '1/8.', beats: 0.75 },
+  { label: '1/8', beats: 0.5 },
+  { label: '1/8T', beats: 1 / 3 },
+  { label: '1/16', beats: 0.25 },
+];
+
+// Slider ranges for the numeric settings of each effect
+export interface EffectParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: 's' | 'ms' | 'dB' | 'Hz' | '%';
+}
+
+export const EFFECT_PARAMS: { [T in EffectType]: EffectParamSpec[] } = {
+  reverb: [
+    { key: 'decay', label: 'Decay', min: 0.3, max: 8, step: 0.1, unit: 's' },
+    { key: 'preDelay', label: 'Pre-delay', min: 0, max: 0.1, step: 0.001, unit: 'ms' },
+  ],
+  delay: [
+    { key: 'time', label: 'Time', min: 0.02, max: 1.5, step: 0.01, unit: 'ms' },
+    { key: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, unit: '%' },
+  ],
+  chorus: [
+    { key: 'rate', label: 'Rate', min: 0.1, max: 5, step: 0.05, unit: 'Hz' },
+    { key: 'depth', label: 'Depth', min: 0.0005, max: 0.008, step: 0.0001, unit: 'ms' },
+  ],
+  eq: [
+    { key: 'low', label: 'Low', min: -12, max: 12, step: 0.5, unit: 'dB' },
+    { key: 'mid', label: 'Mid', min: -12, max: 12, step: 0.5, unit: 'dB' },
+    { key: 'high', label: 'High', min: -12, max: 12, step: 0.5, unit: 'dB' },
+  ],
+  limiter: [
+    { key: 'threshold', label: 'Threshold', min: -24, max: 0, step: 0.5, unit: 'dB' },
+    { key: 'release', label: 'Release', min: 0.01, max: 1, step: 0.01, unit: 's' },
+  ],
+};
+
+// Smoothing time constant for parameter changes, so dragging a slider doesn't click
+const PARAM_SMOOTHING = 0.02;
+const CHORUS_BASE_DELAY = 0.015;
+const MAX_DELAY_TIME = 4;
+const EQ_LOW_FREQUENCY = 250;
+const EQ_MID_FREQUENCY = 1000;
+const EQ_HIGH_FREQUENCY = 4000;
+// Longest tail the delay is allowed to add to offline renders
+const MAX_DELAY_TAIL = 10;
+
+export const getDelayTime = (settings: DelaySettings, tempo: number): number => {
+  const time = settings.sync ? settings.division * (60 / tempo) : settings.time;
+  return Math.min(MAX_DELAY_TIME, Math.max(0.001, time));
+};
+
+// How long the rack keeps sounding after the input falls silent
+export const getEffectsTailTime = (effects: EffectSettings[], tempo: number): number => {
+  return effects.reduce((tail, effect) => {
+    if (effect.bypass || effect.mix === 0) return tail;
+    if (effect.type === 'reverb') return tail + effect.preDelay + effect.decay;
+    if (effect.type === 'delay' && effect.feedback > 0) {
+      // Repeats until the feedback has decayed by 60dB
+      const repeats = Math.log(0.001) / Math.log(effect.feedback);
+      return tail + Math.min(MAX_DELAY_TAIL, getDelayTime(effect, tempo) * (repeats + 1));
+    }
+    return tail;
+  }, 0);
+};
+
+// Stereo impulse response: decorrelated noise under an exponential decay
+export const createImpulseResponse = (ctx: BaseAudioContext, decay: number): AudioBuffer => {
+  const length = Math.max(1, Math.ceil(decay * ctx.sampleRate));
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      // -60dB at t = decay
+      data[i] = (Math.random() * 2 - 1) * Math.pow(0.001, i / length);
+    }
+  }
+  return impulse;
+};
+
+interface EffectUnit {
+  type: EffectType;
+  input: GainNode;
+  output: GainNode;
+  update: (settings: EffectSettings, tempo: number) => void;
+  dispose: () => void;
+}
+
+// Shared wet/dry wrapper: input -> dry -> output and input -> processor -> wet -> output
+const createEffectUnit = (
+  ctx: BaseAudioContext,
+  type: EffectType,
+  build: (input: AudioNode, wetOutput: AudioNode) => {
+    update: (settings: EffectSettings, tempo: number) => void;
+    dispose?: () => void;
+  }
+): EffectUnit => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  const dry = ctx.createGain();
+  const wet = ctx.createGain();
+  wet.gain.value = 0; // Fade in from dry once the first settings arrive
+  input.connect(dry).connect(output);
+  wet.connect(output);
+
+  const processor = build(input, wet);
+
+  return {
+    type,
+    input,
+    output,
+    update: (settings, tempo) => {
+      const mix = settings.bypass ? 0 : Math.min(1, Math.max(0, settings.mix));
+      dry.gain.setTargetAtTime(1 - mix, ctx.currentTime, PARAM_SMOOTHING);
+      wet.gain.setTargetAtTime(mix, ctx.currentTime, PARAM_SMOOTHING);
+      processor.update(settings, tempo);
+    },
+    dispose: () => {
+      processor.dispose?.();
+      input.disconnect();
+      output.disconnect();
+    },
+  };
+};
+
+const createReverb = (ctx: BaseAudioContext) => createEffectUnit(ctx, 'reverb', (input, wetOutput) => {
+  const preDelay = ctx.createDelay(1);
+  const convolver = ctx.createConvolver();
+  input.connect(preDelay).connect(convolver).connect(wetOutput);
+  let decay = 0;
+
+  return {
+    update: (settings) => {
+      const { decay: nextDecay, preDelay: preDelayTime } = settings as ReverbSettings;
+      // Regenerating the impulse is expensive, so only do it when the length changes
+      if (nextDecay !== decay) {
+        decay = nextDecay;
+        convolver.buffer = createImpulseResponse(ctx, decay);
+      }
+      preDelay.delayTime.setTargetAtTime(preDelayTime, ctx.currentTime, PARAM_SMOOTHING);
+    },
+  };
+});
+
+// Ping-pong delay: repeats alternate between the left and right channels
+const createDelay = (ctx: BaseAudioContext) => createEffectUnit(ctx, 'delay', (input, wetOutput) => {
+  const left = ctx.createDelay(MAX_DELAY_TIME);
+  const right = ctx.createDelay(MAX_DELAY_TIME);
+  const leftFeedback = ctx.createGain();
+  const rightFeedback = ctx.createGain();
+  const merger = ctx.createChannelMerger(2);
+  leftFeedback.gain.value = 0;
+  rightFeedback.gain.value = 0;
+
+  input.connect(left);
+  left.connect(leftFeedback).connect(right);
+  right.connect(rightFeedback).connect(left);
+  left.connect(merger, 0, 0);
+  right.connect(merger, 0, 1);
+  merger.connect(wetOutput);
+
+  return {
+    update: (settings, tempo) => {
+      const delay = settings as DelaySettings;
+      const time = getDelayTime(delay, tempo);
+      const feedback = Math.min(0.9, Math.max(0, delay.feedback));
+      left.delayTime.setTargetAtTime(time, ctx.currentTime, PARAM_SMOOTHING);
+      right.delayTime.setTargetAtTime(time, ctx.currentTime, PARAM_SMOOTHING);
+      leftFeedback.gain.setTargetAtTime(feedback, ctx.currentTime, PARAM_SMOOTHING);
+      rightFeedback.gain.setTargetAtTime(feedback, ctx.currentTime, PARAM_SMOOTHING);
+    },
+  };
+});
+
+// Two modulated delay lines with opposite LFO phase for stereo width
+const createChorus = (ctx: BaseAudioContext) => createEffectUnit(ctx, 'chorus', (input, wetOutput) => {
+  const left = ctx.createDelay(0.1);
+  const right = ctx.createDelay(0.1);
+  const lfo = ctx.createOscillator();
+  const leftDepth = ctx.createGain();
+  const rightDepth = ctx.createGain();
+  const merger = ctx.createChannelMerger(2);
+
+  left.delayTime.value = CHORUS_BASE_DELAY;
+  right.delayTime.value = CHORUS_BASE_DELAY;
+  lfo.connect(leftDepth).connect(left.delayTime);
+  lfo.connect(rightDepth).connect(right.delayTime);
+  input.connect(left).connect(merger, 0, 0);
+  input.connect(right).connect(merger, 0, 1);
+  merger.connect(wetOutput);
+  lfo.start();
+
+  return {
+    update: (settings) => {
+      const { rate, depth } = settings as ChorusSettings;
+      lfo.frequency.setTargetAtTime(rate, ctx.currentTime, PARAM_SMOOTHING);
+      leftDepth.gain.setTargetAtTime(depth, ctx.currentTime, PARAM_SMOOTHING);
+      rightDepth.gain.setTargetAtTime(-depth, ctx.currentTime, PARAM_SMOOTHING);
+    },
+    dispose: () => lfo.stop(),
+  };
+});
+
+const createEq = (ctx: BaseAudioContext) => createEffectUnit(ctx, 'eq', (input, wetOutput) => {
+  const low = ctx.createBiquadFilter();
+  const mid = ctx.createBiquadFilter();
+  const high = ctx.createBiquadFilter();
+  low.type = 'lowshelf';
+  low.frequency.value = EQ_LOW_FREQUENCY;
+  mid.type = 'peaking';
+  mid.frequency.value = EQ_MID_FREQUENCY;
+  mid.Q.value = 0.7;
+  high.type = 'highshelf';
+  high.frequency.value = EQ_HIGH_FREQUENCY;
+  input.connect(low).connect(mid).connect(high).connect(wetOutput);
+
+  return {
+    update: (settings) => {
+      const eq = settings as EqSettings;
+      low.gain.setTargetAtTime(eq.low, ctx.currentTime, PARAM_SMOOTHING);
+      mid.gain.setTargetAtTime(eq.mid, ctx.currentTime, PARAM_SMOOTHING);
+      high.gain.setTargetAtTime(eq.high, ctx.currentTime, PARAM_SMOOTHING);
+    },
+  };
+});
+
+// A compressor with a hard knee, high ratio and fast attack acts as a limiter
+const createLimiter = (ctx: BaseAudioContext) => createEffectUnit(ctx, 'limiter', (input, wetOutput) => {
+  const compressor = ctx.createDynamicsCompressor();
+  compressor.knee.value = 0;
+  compressor.ratio.value = 20;
+  compressor.attack.value = 0.003;
+  input.connect(compressor).connect(wetOutput);
+
+  return {
+    update: (settings) => {
+      const { threshold, release } = settings as LimiterSettings;
+      compressor.threshold.setTargetAtTime(threshold, ctx.currentTime, PARAM_SMOOTHING);
+      compressor.release.setTargetAtTime(release, ctx.currentTime, PARAM_SMOOTHING);
+    },
+  };
+});
+
+const EFFECT_FACTORIES: { [T in EffectType]: (ctx: BaseAudioContext) => EffectUnit } = {
+  reverb: createReverb,
+  delay: createDelay,
+  chorus: createChorus,
+  eq: createEq,
+  limiter: createLimiter,
+};
+
+export interface EffectsRack {
+  input: AudioNode;
+  setEffects: (effects: EffectSettings[], tempo: number) => void;
+}
+
+export const createEffectsRack = (ctx: BaseAudioContext, destination: AudioNode): EffectsRack => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  output.connect(destination);
+  input.connect(output);
+
+  const units = new Map<string, EffectUnit>();
+  let chainKey = '';
+
+  const setEffects = (effects: EffectSettings[], tempo: number) => {
+    // Create units for new effects and drop ones that were removed
+    const ids = new Set(effects.map(effect => effect.id));
+    units.forEach((unit, id) => {
+      if (!ids.has(id)) {
+        unit.dispose();
+        units.delete(id);
+      }
+    });
+    effects.forEach((effect) => {
+      let unit = units.get(effect.id);
+      if (unit && unit.type !== effect.type) {
+        unit.dispose();
+        unit = undefined;
+      }
+      if (!unit) {
+        unit = EFFECT_FACTORIES[effect.type](ctx);
+        units.set(effect.id, unit);
+        chainKey = ''; // Force a rewire
+      }
+      unit.update(effect, tempo);
+    });
+
+    // Only rewire when the order changes; bypass is handled inside each unit
+    const nextChainKey = effects.map(effect => effect.id).join('>');
+    if (nextChainKey === chainKey) return;
+    chainKey = nextChainKey;
+
+    input.disconnect();
+    units.forEach(unit => unit.output.disconnect());
+    let previous: AudioNode = input;
+    effects.forEach((effect) => {
+      const unit = units.get(effect.id)!;
+      previous.connect(unit.input);
+      previous = unit.output;
+    });
+    previous.connect(output);
+  };
+
+  return { input, setEffects };
+};
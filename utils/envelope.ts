@@ -0,0 +1,75 @@
+import { EnvelopeSettings } from '../types';
+
+export const DEFAULT_ENVELOPE: EnvelopeSettings = {
+  attack: 0.015,
+  decay: 0.8,
+  sustain: 0.4,
+  release: 0.2,
+};
+
+export const ENVELOPE_LIMITS: { [K in keyof EnvelopeSettings]: { min: number; max: number } } = {
+  attack: { min: 0.001, max: 2 },
+  decay: { min: 0.01, max: 4 },
+  sustain: { min: 0, max: 1 },
+  release: { min: 0.01, max: 5 },
+};
+
+// Level treated as silence at the end of the exponential release
+export const SILENCE_LEVEL = 0.001;
+
+// Level the attack/decay/sustain stages will have reached `elapsed` seconds after note-on
+export const getEnvelopeLevel = (envelope: EnvelopeSettings, peak: number, elapsed: number): number => {
+  const { attack, decay, sustain } = envelope;
+  if (elapsed <= 0) return 0;
+  if (elapsed < attack) return peak * (elapsed / attack);
+  if (elapsed < attack + decay) return peak - peak * (1 - sustain) * ((elapsed - attack) / decay);
+  return peak * sustain;
+};
+
+// Freeze a param at the value it will have at time t, dropping later automation.
+// cancelAndHoldAtTime isn't available everywhere (Firefox), so fall back to the
+// level we expect from the envelope maths (param.value is wrong for future times).
+export const holdParamAt = (param: AudioParam, t: number, expectedValue: number) => {
+  if (typeof param.cancelAndHoldAtTime === 'function') {
+    param.cancelAndHoldAtTime(t);
+  } else {
+    param.cancelScheduledValues(t);
+    param.setValueAtTime(expectedValue, t);
+  }
+};
+
+// Attack to peak, then decay to the sustain level, where the note holds until released
+export const applyEnvelopeAttack = (param: AudioParam, peak: number, envelope: EnvelopeSettings, t: number) => {
+  const { attack, decay, sustain } = envelope;
+  param.cancelScheduledValues(t);
+  param.setValueAtTime(0, t);
+  param.linearRampToValueAtTime(peak, t + attack);
+  param.linearRampToValueAtTime(peak * sustain, t + attack + decay);
+};
+
+// Fade out from wherever the envelope is at time t. Returns the time the voice is silent.
+export const applyEnvelopeRelease = (param: AudioParam, envelope: EnvelopeSettings, t: number, currentLevel: number): number => {
+  return applyExponentialDecay(param, t, currentLevel, envelope.release);
+};
+
+// Exponential fade to silence over `duration` seconds, starting from the level at time t
+export const applyExponentialDecay = (param: AudioParam, t: number, currentLevel: number, duration: number): number => {
+  holdParamAt(param, t, Math.max(currentLevel, SILENCE_LEVEL));
+  param.exponentialRampToValueAtTime(SILENCE_LEVEL, t + duration);
+  return t + duration;
+};
+
+// Level of an exponential release that began at `startLevel`, `elapsed` seconds in
+export const getReleaseLevel = (startLevel: number, duration: number, elapsed: number): number => {
+  const from = Math.max(startLevel, SILENCE_LEVEL);
+  if (elapsed <= 0) return from;
+  if (elapsed >= duration) return SILENCE_LEVEL;
+  return from * Math.pow(SILENCE_LEVEL / from, elapsed / duration);
+};
+
+// Short linear fade used when a voice is stolen; long enough not to click
+export const applyFadeOut = (param: AudioParam, t: number, currentLevel: number, fadeTime: number): number => {
+  holdParamAt(param, t, currentLevel);
+  param.linearRampToValueAtTime(0, t + fadeTime);
+  return t + fadeTime;
+};
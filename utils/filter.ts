@@ -0,0 +1,55 @@
+import { FilterEnvelopeState, FilterSettings, FilterType } from '../types';
+import { applyEnvelopeAttack, applyFadeOut, getEnvelopeLevel } from './envelope';
+
+export const DEFAULT_FILTER: FilterSettings = {
+  enabled: false,
+  type: 'lowpass',
+  cutoff: 1200,
+  resonance: 1,
+  envelope: { attack: 0.01, decay: 0.6, sustain: 0.3, release: 0.3 },
+  envelopeAmount: 2,
+  keyTracking: 0.5,
+};
+
+export const FILTER_TYPES: { id: FilterType; label: string }[] = [
+  { id: 'lowpass', label: 'Low-Pass' },
+  { id: 'highpass', label: 'High-Pass' },
+  { id: 'bandpass', label: 'Band-Pass' },
+];
+
+export const MIN_CUTOFF = 20;
+export const MAX_CUTOFF = 20000;
+export const MAX_RESONANCE = 20;
+export const MAX_ENVELOPE_AMOUNT = 4; // Octaves either way
+
+// Cutoff for a note: key tracking moves it with the distance from middle C
+export const getKeyTrackedCutoff = (settings: FilterSettings, midi: number) => {
+  const cutoff = settings.cutoff * Math.pow(2, settings.keyTracking * (midi - 60) / 12);
+  return Math.min(MAX_CUTOFF, Math.max(MIN_CUTOFF, cutoff));
+};
+
+// Build the filter for one note and start its envelope. The envelope runs on the
+// filter's detune, so its linear ramps in cents sweep the cutoff exponentially.
+export const createFilterStage = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  midi: number,
+  settings: FilterSettings,
+  startTime: number
+): { node: BiquadFilterNode; state: FilterEnvelopeState } => {
+  const node = ctx.createBiquadFilter();
+  node.type = settings.type;
+  node.frequency.setValueAtTime(getKeyTrackedCutoff(settings, midi), startTime);
+  node.Q.setValueAtTime(settings.resonance, startTime);
+  node.connect(destination);
+
+  const amount = settings.envelopeAmount * 1200;
+  applyEnvelopeAttack(node.detune, amount, settings.envelope, startTime);
+  return { node, state: { detune: node.detune, envelope: settings.envelope, amount, startTime } };
+};
+
+// Key released: the cutoff returns from wherever its envelope is over the release time
+export const releaseFilterStage = (state: FilterEnvelopeState, t: number) => {
+  const current = getEnvelopeLevel(state.envelope, state.amount, t - state.startTime);
+  applyFadeOut(state.detune, t, current, state.envelope.release);
+};
@@ -0,0 +1,50 @@
+import { KeyRange, KeyRect } from '../types';
+import { KEY_GEOMETRY, MIN_VISIBLE_WHITE_KEYS } from './constants';
+
+// Width of one octave in SVG user units; KEY_GEOMETRY positions are fractions of this
+export const OCTAVE_UNIT_WIDTH = 1000;
+
+// Left edge of a key measured from MIDI note 0, so any note can start the keyboard
+const getAbsoluteKeyX = (midi: number) => {
+  const octave = Math.floor(midi / 12);
+  return octave * OCTAVE_UNIT_WIDTH + KEY_GEOMETRY[midi % 12].x * OCTAVE_UNIT_WIDTH;
+};
+
+// Lay out every key in the range in SVG units, with x = 0 at the left edge of the lowest key.
+// Ranges can start and end on any note (e.g. A0 - C8), not just on C.
+export const getKeyRects = (range: KeyRange): KeyRect[] => {
+  const originX = getAbsoluteKeyX(range.low);
+  const rects: KeyRect[] = [];
+
+  for (let midi = range.low; midi <= range.high; midi++) {
+    const keyInfo = KEY_GEOMETRY[midi % 12];
+    rects.push({
+      midi,
+      x: getAbsoluteKeyX(midi) - originX,
+      w: keyInfo.w * OCTAVE_UNIT_WIDTH,
+      isWhite: keyInfo.isWhite,
+    });
+  }
+  return rects;
+};
+
+// Total width of a laid-out keyboard: the right edge of its rightmost key
+export const getKeyboardWidth = (rects: KeyRect[]): number => {
+  return rects.reduce((max, rect) => Math.max(max, rect.x + rect.w), 0);
+};
+
+// Largest zoom factor for a range, so at least MIN_VISIBLE_WHITE_KEYS stay in view
+export const getMaxZoom = (range: KeyRange): number => {
+  const whiteKeyCount = getKeyRects(range).filter(rect => rect.isWhite).length;
+  return Math.max(1, whiteKeyCount / MIN_VISIBLE_WHITE_KEYS);
+};
+
+// Find the key under an SVG-space point. Black keys sit on top of the white keys,
+// so they win wherever they overlap.
+export const hitTestKey = (rects: KeyRect[], x: number, y: number, blackKeyHeight: number): KeyRect | null => {
+  if (y < blackKeyHeight) {
+    const blackKey = rects.find(rect => !rect.isWhite && x >= rect.x && x < rect.x + rect.w);
+    if (blackKey) return blackKey;
+  }
+  return rects.find(rect => rect.isWhite && x >= rect.x && x < rect.x + rect.w) || null;
+};
@@ -0,0 +1,93 @@
+import { KeyBindingMap, KeyboardLayout } from '../types';
+
+// Bindings use KeyboardEvent.code, which names the *physical* key (by its US QWERTY
+// position) regardless of the OS layout. The built-in presets therefore share one
+// tracker-style arrangement and differ in the key caps shown on the piano.
+
+export const DEFAULT_LAYOUT_ID = 'tracker';
+export const CUSTOM_LAYOUT_ID = 'custom';
+
+// Two rows like a music tracker: the lower letter row starts at C3, the upper at C4,
+// with the row above each (digits / home row) providing the black keys.
+const TRACKER_BINDINGS: KeyBindingMap = {
+  // Lower row (C3 to E4)
+  'KeyZ': -12, 'KeyS': -11, 'KeyX': -10, 'KeyD': -9, 'KeyC': -8, 'KeyV': -7,
+  'KeyG': -6, 'KeyB': -5, 'KeyH': -4, 'KeyN': -3, 'KeyJ': -2, 'KeyM': -1,
+  'Comma': 0, 'KeyL': 1, 'Period': 2, 'Semicolon': 3, 'Slash': 4,
+
+  // Upper row (C4 to G5)
+  'KeyQ': 0, 'Digit2': 1, 'KeyW': 2, 'Digit3': 3, 'KeyE': 4, 'KeyR': 5,
+  'Digit5': 6, 'KeyT': 7, 'Digit6': 8, 'KeyY': 9, 'Digit7': 10, 'KeyU': 11,
+  'KeyI': 12, 'Digit9': 13, 'KeyO': 14, 'Digit0': 15, 'KeyP': 16,
+  'BracketLeft': 17, 'Equal': 18, 'BracketRight': 19,
+};
+
+export const BUILT_IN_LAYOUTS: KeyboardLayout[] = [
+  {
+    id: 'tracker',
+    name: 'Tracker (QWERTY)',
+    bindings: TRACKER_BINDINGS,
+  },
+  {
+    id: 'azerty',
+    name: 'AZERTY',
+    bindings: TRACKER_BINDINGS,
+    labels: {
+      'KeyQ': 'A', 'KeyW': 'Z', 'KeyA': 'Q', 'KeyZ': 'W', 'Semicolon': 'M',
+      'KeyM': ',', 'Comma': ';', 'Period': ':', 'Slash': '!',
+      'BracketLeft': '^', 'BracketRight': '$',
+    },
+  },
+  {
+    id: 'qwertz',
+    name: 'QWERTZ',
+    bindings: TRACKER_BINDINGS,
+    labels: {
+      'KeyY': 'Z', 'KeyZ': 'Y', 'Semicolon': 'Ö', 'BracketLeft': 'Ü',
+      'BracketRight': '+', 'Equal': '´', 'Slash': '-',
+    },
+  },
+  {
+    id: 'dvorak',
+    name: 'Dvorak',
+    bindings: TRACKER_BINDINGS,
+    labels: {
+      'KeyQ': "'", 'KeyW': ',', 'KeyE': '.', 'KeyR': 'P', 'KeyT': 'Y', 'KeyY': 'F',
+      'KeyU': 'G', 'KeyI': 'C', 'KeyO': 'R', 'KeyP': 'L', 'BracketLeft': '/', 'BracketRight': '=',
+      'KeyS': 'O', 'KeyD': 'E', 'KeyG': 'I', 'KeyH': 'D', 'KeyJ': 'H', 'KeyL': 'N', 'Semicolon': 'S',
+      'KeyZ': ';', 'KeyX': 'Q', 'KeyC': 'J', 'KeyV': 'K', 'KeyB': 'X', 'KeyN': 'B',
+      'Comma': 'W', 'Period': 'V', 'Slash': 'Z', 'Equal': ']',
+    },
+  },
+];
+
+// US key caps for the punctuation codes
+const PUNCTUATION_LABELS: { [code: string]: string } = {
+  'Comma': ',', 'Period': '.', 'Slash': '/', 'Semicolon': ';', 'Quote': "'",
+  'BracketLeft': '[', 'BracketRight': ']', 'Minus': '-', 'Equal': '=',
+  'Backquote': '`', 'Backslash': '\\',
+};
+
+export const getKeyCodeLabel = (code: string, layout?: KeyboardLayout): string => {
+  if (layout?.labels?.[code]) return layout.labels[code];
+  if (PUNCTUATION_LABELS[code]) return PUNCTUATION_LABELS[code];
+  return code.replace('Key', '').replace('Digit', '').replace('Numpad', 'Num');
+};
+
+// Reverse map for the piano key labels. Every code bound to an offset is kept.
+export const getOffsetLabels = (layout: KeyboardLayout): { [offset: number]: string } => {
+  const labels: { [offset: number]: string[] } = {};
+  Object.entries(layout.bindings).forEach(([code, offset]) => {
+    (labels[offset] = labels[offset] || []).push(getKeyCodeLabel(code, layout));
+  });
+
+  const joined: { [offset: number]: string } = {};
+  Object.entries(labels).forEach(([offset, codeLabels]) => {
+    joined[Number(offset)] = codeLabels.join('/');
+  });
+  return joined;
+};
+
+export const getBuiltInLayout = (id: string): KeyboardLayout => {
+  return BUILT_IN_LAYOUTS.find(layout => layout.id === id) || BUILT_IN_LAYOUTS[0];
+};
@@ -0,0 +1,153 @@
+import { Hand, PerformanceEvent, PracticeOptions, PracticeSummary } from '../types';
+
+export const DEFAULT_PRACTICE: PracticeOptions = {
+  hand: 'both',
+  splitPoint: 60,
+  waitForNotes: true,
+  section: null,
+  loop: false,
+};
+
+export const HANDS: { id: Hand; label: string }[] = [
+  { id: 'both', label: 'Both' },
+  { id: 'left', label: 'Left' },
+  { id: 'right', label: 'Right' },
+];
+
+const HIT_WINDOW = 0.25; // Seconds either side of a note that still count as playing it
+const CHORD_WINDOW = 0.05; // Notes starting this close together are one step
+
+// Notes to be played together at one moment of the lesson
+export interface LessonStep {
+  time: number; // Seconds from the start of the lesson
+  notes: number[];
+}
+
+const isInHand = (midi: number, hand: Hand, splitPoint: number) => {
+  if (hand === 'left') return midi < splitPoint;
+  if (hand === 'right') return midi >= splitPoint;
+  return true;
+};
+
+// Group a take's note-ons into steps for the chosen hand and section
+export const buildLessonSteps = (events: PerformanceEvent[], options: PracticeOptions): LessonStep[] => {
+  const start = options.section?.start ?? 0;
+  const end = options.section?.end ?? Infinity;
+  const steps: LessonStep[] = [];
+
+  events.forEach((event) => {
+    if (event.type !== 'noteOn' || event.time < start || event.time > end) return;
+    if (!isInHand(event.midi, options.hand, options.splitPoint)) return;
+    const time = event.time - start;
+    const last = steps[steps.length - 1];
+    if (last && time - last.time <= CHORD_WINDOW) {
+      if (!last.notes.includes(event.midi)) last.notes.push(event.midi);
+    } else {
+      steps.push({ time, notes: [event.midi] });
+    }
+  });
+  return steps;
+};
+
+interface NoteResult {
+  midi: number;
+  state: 'pending' | 'hit' | 'missed';
+  offset: number | null; // Seconds; negative = early
+}
+
+interface StepState {
+  time: number;
+  notes: NoteResult[];
+  reachedAt: number | null; // Real time at which the lesson clock reached the step
+}
+
+export interface LessonSession {
+  advance: (now: number) => void; // Move the lesson clock to real time `now` (seconds)
+  press: (midi: number, now: number) => boolean; // True if the key was expected
+  getExpectedKeys: () => number[];
+  getSummary: () => PracticeSummary;
+  getProgress: () => { done: number; total: number };
+  isFinished: () => boolean;
+}
+
+// Lesson clock and scoring. Pure bookkeeping: the caller supplies the time, so it
+// can be driven by animation frames, an audio clock or a test.
+export const createLessonSession = (steps: LessonStep[], waitForNotes: boolean, startTime: number): LessonSession => {
+  const states: StepState[] = steps.map(step => ({
+    time: step.time,
+    notes: step.notes.map(midi => ({ midi, state: 'pending', offset: null })),
+    reachedAt: null,
+  }));
+  let lessonTime = 0;
+  let lastNow = startTime;
+  let cursor = 0; // First step with notes still pending
+  let wrongNotes = 0;
+
+  const isComplete = (step: StepState) => step.notes.every(note => note.state !== 'pending');
+
+  const advance = (now: number) => {
+    const elapsed = Math.max(0, now - lastNow);
+    lastNow = now;
+
+    // Waiting: the clock stops at a step until all of its notes are played
+    const current = states[cursor];
+    lessonTime = waitForNotes && current ? Math.min(lessonTime + elapsed, Math.max(lessonTime, current.time)) : lessonTime + elapsed;
+
+    for (const step of states) {
+      if (step.time > lessonTime) break;
+      if (step.reachedAt === null) step.reachedAt = now - (lessonTime - step.time);
+    }
+
+    if (!waitForNotes) {
+      for (let i = cursor; i < states.length && states[i].time + HIT_WINDOW < lessonTime; i++) {
+        states[i].notes.forEach((note) => { if (note.state === 'pending') note.state = 'missed'; });
+      }
+    }
+    while (cursor < states.length && isComplete(states[cursor])) cursor++;
+  };
+
+  const press = (midi: number, now: number) => {
+    advance(now);
+    for (let i = cursor; i < states.length && states[i].time <= lessonTime + HIT_WINDOW; i++) {
+      const step = states[i];
+      const note = step.notes.find(n => n.midi === midi && n.state === 'pending');
+      if (!note) continue;
+      // Early presses are measured on the lesson clock; late ones in real time, including any wait
+      note.offset = step.reachedAt === null ? lessonTime - step.time : now - step.reachedAt;
+      note.state = 'hit';
+      while (cursor < states.length && isComplete(states[cursor])) cursor++;
+      return true;
+    }
+    wrongNotes++;
+    return false;
+  };
+
+  const getSummary = (): PracticeSummary => {
+    const notes = states.flatMap(step => step.notes);
+    const hits = notes.filter(note => note.state === 'hit');
+    const misses = notes.filter(note => note.state === 'missed').length;
+    const early = hits.filter(note => (note.offset ?? 0) < 0).map(note => note.offset!);
+    const late = hits.filter(note => (note.offset ?? 0) > 0).map(note => note.offset!);
+    const averageMs = (offsets: number[]) => offsets.length
+      ? Math.round(Math.abs(offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length) * 1000)
+      : null;
+    const attempts = hits.length + misses + wrongNotes;
+    return {
+      hits: hits.length,
+      misses,
+      wrongNotes,
+      averageEarlyMs: averageMs(early),
+      averageLateMs: averageMs(late),
+      accuracy: attempts > 0 ? hits.length / attempts : 0,
+    };
+  };
+
+  return {
+    advance,
+    press,
+    getExpectedKeys: () => states[cursor]?.notes.filter(note => note.state === 'pending').map(note => note.midi) ?? [],
+    getSummary,
+    getProgress: () => ({ done: cursor, total: states.length }),
+    isFinished: () => cursor >= states.length,
+  };
+};
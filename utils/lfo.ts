@@ -0,0 +1,101 @@
+import { LfoSettings, LfoTarget } from '../types';
+
+export const DEFAULT_LFOS: LfoSettings[] = [
+  { target: 'pitch', enabled: false, waveform: 'sine', rate: 5.5, sync: false, division: 0.25, depth: 15 },
+  { target: 'cutoff', enabled: false, waveform: 'triangle', rate: 0.5, sync: true, division: 4, depth: 1 },
+  { target: 'amplitude', enabled: false, waveform: 'sine', rate: 4, sync: false, division: 0.5, depth: 0.3 },
+];
+
+export const LFO_LABELS: Record<LfoTarget, string> = {
+  pitch: 'Vibrato',
+  cutoff: 'Filter',
+  amplitude: 'Tremolo',
+};
+
+export const LFO_WAVEFORMS: { id: LfoSettings['waveform']; label: string }[] = [
+  { id: 'sine', label: 'Sine' },
+  { id: 'triangle', label: 'Triangle' },
+  { id: 'square', label: 'Square' },
+  { id: 'sawtooth', label: 'Saw' },
+];
+
+// Tempo-synced cycle lengths, in beats
+export const LFO_DIVISIONS: { label: string; beats: number }[] = [
+  { label: '2 bars', beats: 8 },
+  { label: '1 bar', beats: 4 },
+  { label: '1/2', beats: 2 },
+  { label: '1/4', beats: 1 },
+  { label: '1/8', beats: 0.5 },
+  { label: '1/8T', beats: 1 / 3 },
+  { label: '1/16', beats: 0.25 },
+];
+
+// Depth slider range and units for each target
+export const LFO_DEPTHS: Record<LfoTarget, { max: number; step: number; unit: string }> = {
+  pitch: { max: 100, step: 1, unit: 'ct' },
+  cutoff: { max: 4, step: 0.05, unit: 'oct' },
+  amplitude: { max: 1, step: 0.01, unit: '' },
+};
+
+export const getLfoRate = (lfo: LfoSettings, tempo: number): number => {
+  return lfo.sync ? tempo / 60 / lfo.division : lfo.rate;
+};
+
+// Smoothing time constant for parameter changes, so dragging a slider doesn't click
+const PARAM_SMOOTHING = 0.02;
+
+export interface Modulation {
+  input: GainNode; // Voices connect here; the tremolo works on this gain
+  attachVoice: (detune: AudioParam[], cutoff: AudioParam | null) => () => void; // Returns a detach, safe to call twice
+  setLfos: (lfos: LfoSettings[], tempo: number) => void;
+}
+
+// Global LFOs, free-running for as long as the context. Vibrato and filter sweeps
+// are wired into each voice's detune params; the tremolo works on everything at once.
+export const createModulation = (ctx: BaseAudioContext, destination: AudioNode): Modulation => {
+  const input = ctx.createGain();
+  input.connect(destination);
+
+  const lfos = {} as Record<LfoTarget, { oscillator: OscillatorNode; depth: GainNode }>;
+  (['pitch', 'cutoff', 'amplitude'] as LfoTarget[]).forEach((target) => {
+    const oscillator = ctx.createOscillator();
+    const depth = ctx.createGain();
+    depth.gain.value = 0;
+    oscillator.connect(depth);
+    oscillator.start();
+    lfos[target] = { oscillator, depth };
+  });
+  lfos.amplitude.depth.connect(input.gain);
+
+  return {
+    input,
+    attachVoice: (detune, cutoff) => {
+      detune.forEach(param => lfos.pitch.depth.connect(param));
+      if (cutoff) lfos.cutoff.depth.connect(cutoff);
+      let isAttached = true;
+      return () => {
+        if (!isAttached) return; // Silencing a voice and its end both tear it down
+        isAttached = false;
+        detune.forEach(param => lfos.pitch.depth.disconnect(param));
+        if (cutoff) lfos.cutoff.depth.disconnect(cutoff);
+      };
+    },
+    setLfos: (settings, tempo) => {
+      const t = ctx.currentTime;
+      settings.forEach((lfo) => {
+        const { oscillator, depth } = lfos[lfo.target];
+        oscillator.type = lfo.waveform;
+        oscillator.frequency.setTargetAtTime(getLfoRate(lfo, tempo), t, PARAM_SMOOTHING);
+
+        // Pitch depth is in cents and cutoff depth in octaves, both landing on detune params.
+        // The tremolo swings the gain between 1 and 1 - depth.
+        const amount = !lfo.enabled ? 0
+          : lfo.target === 'pitch' ? lfo.depth
+          : lfo.target === 'cutoff' ? lfo.depth * 1200
+          : lfo.depth / 2;
+        depth.gain.setTargetAtTime(amount, t, PARAM_SMOOTHING);
+        if (lfo.target === 'amplitude') input.gain.setTargetAtTime(1 - amount, t, PARAM_SMOOTHING);
+      });
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import { MetronomeSettings } from '../types';
+import { createLookaheadScheduler } from './scheduler';
+
+export const DEFAULT_METRONOME: MetronomeSettings = {
+  beatsPerBar: 4,
+  beatUnit: 4,
+  accents: [true, false, false, false],
+  subdivision: 1,
+  volume: 0.7,
+  countInBars: 0,
+};
+
+export const TIME_SIGNATURES = [
+  { beatsPerBar: 2, beatUnit: 4 },
+  { beatsPerBar: 3, beatUnit: 4 },
+  { beatsPerBar: 4, beatUnit: 4 },
+  { beatsPerBar: 5, beatUnit: 4 },
+  { beatsPerBar: 6, beatUnit: 8 },
+  { beatsPerBar: 7, beatUnit: 8 },
+  { beatsPerBar: 9, beatUnit: 8 },
+  { beatsPerBar: 12, beatUnit: 8 },
+];
+
+export const SUBDIVISIONS = [
+  { clicks: 1, label: 'None' },
+  { clicks: 2, label: 'Eighths' },
+  { clicks: 3, label: 'Triplets' },
+  { clicks: 4, label: 'Sixteenths' },
+];
+
+// Tempo is in quarter notes per minute, so an eighth-note beat is half as long
+export const getBeatDuration = (tempo: number, beatUnit: number) => (60 / tempo) * (4 / beatUnit);
+
+export const getBarDuration = (tempo: number, settings: MetronomeSettings) => {
+  return settings.beatsPerBar * getBeatDuration(tempo, settings.beatUnit);
+};
+
+// Keep accents that still fit when the bar length changes; the downbeat is accented by default
+export const resizeAccents = (accents: boolean[], beatsPerBar: number) => {
+  return Array.from({ length: beatsPerBar }, (_, beat) => accents[beat] ?? beat === 0);
+};
+
+const TAP_RESET_TIME = 2; // Seconds without a tap before a new tempo is started
+const TAP_HISTORY = 4;
+
+// Tempo from the average of the last few tap intervals; null until there are two taps
+export const getTapTempo = (taps: number[]): number | null => {
+  if (taps.length < 2) return null;
+  const recent = taps.slice(-TAP_HISTORY - 1);
+  const interval = (recent[recent.length - 1] - recent[0]) / (recent.length - 1);
+  return Math.round(60 / interval);
+};
+
+// Add a tap (seconds), starting over if the last one was too long ago
+export const addTap = (taps: number[], time: number) => {
+  const last = taps[taps.length - 1];
+  return last !== undefined && time - last < TAP_RESET_TIME ? [...taps.slice(-TAP_HISTORY), time] : [time];
+};
+
+export interface MetronomeTick {
+  time: number; // AudioContext time of the click
+  beat: number; // Beat within the bar
+  subdivision: number; // Click within the beat, 0 on the beat
+}
+
+export interface Metronome {
+  start: (startTime: number, stopTime?: number) => void; // Clicks from startTime, up to stopTime if given
+  stop: () => void;
+  setTempo: (tempo: number) => void;
+  setSettings: (settings: MetronomeSettings) => void;
+}
+
+const CLICK_DURATION = 0.05;
+
+// Accented downbeat, plain beat, and quieter subdivision clicks
+const CLICK_SOUNDS = {
+  accent: { frequency: 1760, level: 1 },
+  beat: { frequency: 1175, level: 0.6 },
+  subdivision: { frequency: 880, level: 0.3 },
+};
+
+// Clicks scheduled ahead on the audio clock, so they stay sample-accurate
+export const createMetronome = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  onTick?: (tick: MetronomeTick) => void
+): Metronome => {
+  let tempo = 120;
+  let settings = DEFAULT_METRONOME;
+  let nextTickTime = 0;
+  let tickIndex = 0;
+  let endTime = Infinity;
+
+  const playClick = (time: number, sound: { frequency: number; level: number }) => {
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.frequency.value = sound.frequency;
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(sound.level * settings.volume, time + 0.001);
+    gain.gain.exponentialRampToValueAtTime(0.0001, time + CLICK_DURATION);
+    oscillator.connect(gain);
+    gain.connect(destination);
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_DURATION);
+    oscillator.onended = () => gain.disconnect();
+  };
+
+  const scheduler = createLookaheadScheduler(ctx, (until) => {
+    while (nextTickTime < until && nextTickTime < endTime - 1e-6) {
+      const clicksPerBar = settings.beatsPerBar * settings.subdivision;
+      const position = tickIndex % clicksPerBar;
+      const beat = Math.floor(position / settings.subdivision);
+      const subdivision = position % settings.subdivision;
+
+      if (subdivision > 0) {
+        playClick(nextTickTime, CLICK_SOUNDS.subdivision);
+      } else {
+        playClick(nextTickTime, settings.accents[beat] ? CLICK_SOUNDS.accent : CLICK_SOUNDS.beat);
+      }
+      onTick?.({ time: nextTickTime, beat, subdivision });
+
+      // Tempo and subdivision changes take effect from the next click
+      nextTickTime += getBeatDuration(tempo, settings.beatUnit) / settings.subdivision;
+      tickIndex++;
+    }
+    if (nextTickTime >= endTime - 1e-6) scheduler.stop();
+  });
+
+  return {
+    start: (startTime, stopTime) => {
+      scheduler.stop();
+      nextTickTime = startTime;
+      tickIndex = 0;
+      endTime = stopTime ?? Infinity;
+      scheduler.start();
+    },
+    stop: () => scheduler.stop(),
+    setTempo: (next) => { tempo = next; },
+    setSettings: (next) => { settings = next; },
+  };
+};
@@ -0,0 +1,57 @@
+import { MidiInputInfo, MidiMessage, PedalType } from '../types';
+
+// MIDI controller numbers we respond to
+export const SUSTAIN_PEDAL_CC = 64;
+export const SOSTENUTO_PEDAL_CC = 66;
+export const SOFT_PEDAL_CC = 67;
+
+export const PEDAL_CONTROLLERS: { [P in PedalType]: number } = {
+  sustain: SUSTAIN_PEDAL_CC,
+  sostenuto: SOSTENUTO_PEDAL_CC,
+  soft: SOFT_PEDAL_CC,
+};
+
+export const getPedalForController = (controller: number): PedalType | null => {
+  const entry = Object.entries(PEDAL_CONTROLLERS).find(([, cc]) => cc === controller);
+  return entry ? entry[0] as PedalType : null;
+};
+
+// Status byte high nibbles (channel is in the low nibble)
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+
+// Decode a raw Web MIDI message into the subset of events the piano cares about.
+// Returns null for anything else (clock, sysex, pitch bend...).
+export const parseMidiMessage = (data: Uint8Array | null): MidiMessage | null => {
+  if (!data || data.length < 3) return null;
+
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const [, data1, data2] = data;
+
+  switch (status) {
+    case NOTE_ON:
+      // Note-on with velocity 0 is the running-status way of sending note-off
+      if (data2 === 0) return { type: 'noteOff', channel, note: data1 };
+      return { type: 'noteOn', channel, note: data1, velocity: data2 };
+    case NOTE_OFF:
+      return { type: 'noteOff', channel, note: data1 };
+    case CONTROL_CHANGE:
+      return { type: 'controlChange', channel, controller: data1, value: data2 };
+    default:
+      return null;
+  }
+};
+
+export const getMidiInputs = (access: MIDIAccess): MidiInputInfo[] => {
+  const inputs: MidiInputInfo[] = [];
+  access.inputs.forEach((input) => {
+    inputs.push({
+      id: input.id,
+      name: input.name || 'Unknown device',
+      manufacturer: input.manufacturer || '',
+    });
+  });
+  return inputs;
+};
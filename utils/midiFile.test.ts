@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { PerformanceEvent } from '../types';
+import { decodeMidiFile, encodeMidiFile, encodeVariableLength, readVariableLength } from './midiFile';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+// Hand-built file: MThd with the given format and 480 ticks per quarter, then one MTrk per body
+const buildFile = (format: number, tracks: number[][]) => new Uint8Array([
+  ...ascii('MThd'), ...uint32(6), 0, format, 0, tracks.length, 0x01, 0xe0,
+  ...tracks.flatMap(body => [...ascii('MTrk'), ...uint32(body.length), ...body]),
+]);
+
+const END_OF_TRACK = [0x00, 0xff, 0x2f, 0x00];
+
+const tempo = (microsecondsPerQuarter: number) => [
+  0xff, 0x51, 0x03, (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff,
+];
+
+const noteOf = (event: PerformanceEvent) => event.type === 'pedal' ? null : event.midi;
+
+const take: PerformanceEvent[] = [
+  { type: 'noteOn', time: 0, midi: 60, velocity: 100 / 127 },
+  { type: 'pedal', time: 0.25, pedal: 'sustain', value: 1 },
+  { type: 'noteOff', time: 0.5, midi: 60 },
+  { type: 'noteOn', time: 0.5, midi: 64, velocity: 80 / 127 },
+  { type: 'pedal', time: 0.75, pedal: 'sustain', value: 0 },
+  { type: 'noteOff', time: 1, midi: 64 },
+];
+
+describe('variable-length quantities', () => {
+  const cases: [number, number[]][] = [
+    [0, [0x00]],
+    [0x40, [0x40]],
+    [0x7f, [0x7f]],
+    [0x80, [0x81, 0x00]],
+    [0x2000, [0xc0, 0x00]],
+    [0x3fff, [0xff, 0x7f]],
+    [0x4000, [0x81, 0x80, 0x00]],
+    [0x0fffffff, [0xff, 0xff, 0xff, 0x7f]],
+  ];
+
+  it.each(cases)('encodes %i', (value, bytes) => {
+    expect(encodeVariableLength(value)).toEqual(bytes);
+  });
+
+  it.each(cases)('reads %i back', (value, bytes) => {
+    const reader = { data: new Uint8Array([...bytes, 0x42]), pos: 0 };
+    expect(readVariableLength(reader)).toBe(value);
+    expect(reader.pos).toBe(bytes.length);
+  });
+
+  it('rejects quantities longer than four bytes', () => {
+    expect(() => readVariableLength({ data: new Uint8Array([0x80, 0x80, 0x80, 0x80, 0x00]), pos: 0 })).toThrow('Invalid variable-length quantity');
+  });
+});
+
+describe('encodeMidiFile', () => {
+  it('drops repeated status bytes with running status', () => {
+    const notes: PerformanceEvent[] = [
+      { type: 'noteOn', time: 0, midi: 60, velocity: 1 },
+      { type: 'noteOff', time: 0.5, midi: 60 },
+    ];
+    const bytes = Array.from(encodeMidiFile([notes], { format: 1 }));
+    // The take's track ends the file: note-on, then after 480 ticks a note-off
+    // (note-on with velocity 0) without its status byte, then end of track
+    expect(bytes.slice(-12)).toEqual([0x00, 0x90, 60, 127, 0x83, 0x60, 60, 0, 0x00, 0xff, 0x2f, 0x00]);
+  });
+
+  it('writes a single track for format 0 and a tempo track plus one per take for format 1', () => {
+    const format0 = decodeMidiFile(encodeMidiFile([take, take], { format: 0 }));
+    expect(format0.format).toBe(0);
+    expect(format0.tracks).toHaveLength(1);
+    expect(format0.events).toHaveLength(take.length * 2);
+
+    const format1 = encodeMidiFile([take, take], { format: 1 });
+    expect(format1[11]).toBe(3); // Track count in the header
+    const decoded = decodeMidiFile(format1);
+    expect(decoded.format).toBe(1);
+    expect(decoded.tracks).toHaveLength(2); // The tempo track holds no notes
+  });
+});
+
+describe('decodeMidiFile', () => {
+  it('round-trips a take', () => {
+    const decoded = decodeMidiFile(encodeMidiFile([take], { format: 1, bpm: 90 }));
+    expect(decoded.bpm).toBe(90);
+    expect(decoded.duration).toBeCloseTo(1);
+    expect(decoded.tracks[0]).toHaveLength(take.length);
+    decoded.tracks[0].forEach((event, i) => {
+      expect(event).toEqual({ ...take[i], time: expect.closeTo(take[i].time, 3) });
+    });
+  });
+
+  it('follows running status and treats note-on with velocity 0 as note-off', () => {
+    const decoded = decodeMidiFile(buildFile(0, [[
+      0x00, 0x90, 60, 100,
+      0x00, 64, 90, // Running status
+      0x83, 0x60, 60, 0,
+      0x00, 64, 0,
+      ...END_OF_TRACK,
+    ]]));
+    expect(decoded.events.map(event => [event.type, noteOf(event)])).toEqual([
+      ['noteOn', 60], ['noteOn', 64], ['noteOff', 60], ['noteOff', 64],
+    ]);
+    expect(decoded.events[2].time).toBeCloseTo(0.5);
+  });
+
+  it('converts ticks to seconds through tempo changes', () => {
+    const decoded = decodeMidiFile(buildFile(1, [
+      [0x00, ...tempo(500000), 0x83, 0x60, ...tempo(250000), ...END_OF_TRACK], // 120 BPM, then 240 BPM after a beat
+      [0x00, 0x90, 60, 100, 0x83, 0x60, 0x80, 60, 0, 0x83, 0x60, 0x90, 62, 100, 0x83, 0x60, 0x80, 62, 0, ...END_OF_TRACK],
+    ]));
+    expect(decoded.bpm).toBe(120);
+    expect(decoded.events.map(event => event.time)).toEqual([
+      0,
+      expect.closeTo(0.5),
+      expect.closeTo(0.75),
+      expect.closeTo(1),
+    ]);
+  });
+
+  it('keeps each track of a format 1 file separate and merges them in time order', () => {
+    const decoded = decodeMidiFile(buildFile(1, [
+      [0x00, 0x90, 48, 100, 0x87, 0x40, 48, 0, ...END_OF_TRACK],
+      [0x83, 0x60, 0x90, 72, 100, 0x83, 0x60, 72, 0, ...END_OF_TRACK],
+    ]));
+    expect(decoded.tracks.map(track => track.map(noteOf))).toEqual([[48, 48], [72, 72]]);
+    expect(decoded.events.map(noteOf)).toEqual([48, 72, 48, 72]);
+    expect(decoded.duration).toBeCloseTo(1);
+  });
+
+  it('rejects files that are not MIDI', () => {
+    expect(() => decodeMidiFile(new Uint8Array(ascii('RIFF0000WAVE')))).toThrow('Not a Standard MIDI File');
+  });
+
+  it('rejects running status with no status byte before it', () => {
+    expect(() => decodeMidiFile(buildFile(0, [[0x00, 60, 100, ...END_OF_TRACK]]))).toThrow('Running status without a preceding status byte');
+  });
+});
@@ -0,0 +1,306 @@
+import { DecodedMidiFile, MidiFileFormat, PedalType, PerformanceEvent } from '../types';
+import { getPerformanceDuration, sortEvents } from './performance';
+import { getPedalForController, PEDAL_CONTROLLERS } from './midi';
+
+// Standard MIDI File (SMF) encoding and decoding, formats 0 and 1.
+// Spec: https://www.midi.org/specifications/file-format-specifications/standard-midi-files
+
+export const DEFAULT_PPQ = 480; // Ticks per quarter note
+export const DEFAULT_BPM = 120;
+const MICROSECONDS_PER_MINUTE = 60000000;
+
+const META_EVENT = 0xff;
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2f;
+const META_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+const SYSEX_START = 0xf0;
+const SYSEX_ESCAPE = 0xf7;
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+const PROGRAM_CHANGE = 0xc0;
+const CHANNEL_PRESSURE = 0xd0;
+
+// --- Encoding ---
+
+// A complete message (status byte first) at an absolute tick
+interface TrackMessage {
+  tick: number;
+  data: number[];
+}
+
+export const encodeVariableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let remaining = Math.floor(value / 128);
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  return bytes;
+};
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0) & 0x7f);
+
+const chunk = (type: string, body: number[]) => [...ascii(type), ...uint32(body.length), ...body];
+
+const metaMessage = (tick: number, type: number, payload: number[]): TrackMessage => ({
+  tick,
+  data: [META_EVENT, type, ...encodeVariableLength(payload.length), ...payload],
+});
+
+const encodeTrack = (messages: TrackMessage[]): number[] => {
+  const body: number[] = [];
+  let lastTick = 0;
+  let runningStatus: number | null = null;
+
+  // Stable sort preserves the recorded order of same-tick messages
+  [...messages].sort((a, b) => a.tick - b.tick).forEach(({ tick, data }) => {
+    body.push(...encodeVariableLength(tick - lastTick));
+    lastTick = tick;
+
+    const status = data[0];
+    if (status < SYSEX_START) {
+      // Channel message: drop the status byte when it repeats (running status)
+      body.push(...(status === runningStatus ? data.slice(1) : data));
+      runningStatus = status;
+    } else {
+      // Meta and sysex events cancel running status
+      body.push(...data);
+      runningStatus = null;
+    }
+  });
+
+  body.push(0, META_EVENT, META_END_OF_TRACK, 0);
+  return chunk('MTrk', body);
+};
+
+const performanceToMessages = (events: PerformanceEvent[], secondsToTicks: (seconds: number) => number): TrackMessage[] => {
+  return sortEvents(events).map((event): TrackMessage => {
+    const tick = secondsToTicks(event.time);
+    switch (event.type) {
+      case 'noteOn':
+        return { tick, data: [NOTE_ON, event.midi, Math.max(1, Math.min(127, Math.round(event.velocity * 127)))] };
+      case 'noteOff':
+        // Note-on with velocity 0 keeps running status intact between ons and offs
+        return { tick, data: [NOTE_ON, event.midi, 0] };
+      case 'pedal':
+        return { tick, data: [CONTROL_CHANGE, PEDAL_CONTROLLERS[event.pedal], Math.round(event.value * 127)] };
+    }
+  });
+};
+
+interface EncodeOptions {
+  format: MidiFileFormat;
+  bpm?: number;
+  ppq?: number;
+  trackNames?: string[];
+}
+
+// Format 0 merges every track into one; format 1 writes a tempo track followed by one track per input
+export const encodeMidiFile = (tracks: PerformanceEvent[][], options: EncodeOptions): Uint8Array => {
+  const { format, bpm = DEFAULT_BPM, ppq = DEFAULT_PPQ, trackNames = [] } = options;
+  const secondsToTicks = (seconds: number) => Math.round(seconds * ppq * bpm / 60);
+
+  const microsecondsPerQuarter = Math.round(MICROSECONDS_PER_MINUTE / bpm);
+  const conductor = [
+    metaMessage(0, META_TEMPO, [(microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff]),
+    metaMessage(0, META_TIME_SIGNATURE, [4, 2, 24, 8]), // 4/4
+  ];
+
+  let trackChunks: number[][];
+  if (format === 0) {
+    const merged = tracks.flatMap(events => performanceToMessages(events, secondsToTicks));
+    const name = trackNames[0] ? [metaMessage(0, META_TRACK_NAME, ascii(trackNames[0]))] : [];
+    trackChunks = [encodeTrack([...name, ...conductor, ...merged])];
+  } else {
+    trackChunks = [
+      encodeTrack(conductor),
+      ...tracks.map((events, i) => {
+        const name = trackNames[i] ? [metaMessage(0, META_TRACK_NAME, ascii(trackNames[i]))] : [];
+        return encodeTrack([...name, ...performanceToMessages(events, secondsToTicks)]);
+      }),
+    ];
+  }
+
+  const header = chunk('MThd', [...uint16(format), ...uint16(trackChunks.length), ...uint16(ppq)]);
+  return new Uint8Array([...header, ...trackChunks.flat()]);
+};
+
+// --- Decoding ---
+
+interface Reader {
+  data: Uint8Array;
+  pos: number;
+}
+
+const readUint8 = (reader: Reader) => {
+  if (reader.pos >= reader.data.length) throw new Error('Unexpected end of MIDI file');
+  return reader.data[reader.pos++];
+};
+
+const readUint16 = (reader: Reader) => (readUint8(reader) << 8) | readUint8(reader);
+
+const readUint32 = (reader: Reader) => ((readUint16(reader) << 16) >>> 0) + readUint16(reader);
+
+const readAscii = (reader: Reader, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i++) text += String.fromCharCode(readUint8(reader));
+  return text;
+};
+
+export const readVariableLength = (reader: Reader): number => {
+  let value = 0;
+  for (let i = 0; i < 4; i++) {
+    const byte = readUint8(reader);
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return value;
+  }
+  throw new Error('Invalid variable-length quantity in MIDI file');
+};
+
+// Raw track event in ticks, before tempo conversion
+type TickEvent =
+  | { kind: 'note'; tick: number; midi: number; velocity: number } // velocity 0 = note-off
+  | { kind: 'pedal'; tick: number; pedal: PedalType; value: number }
+  | { kind: 'tempo'; tick: number; microsecondsPerQuarter: number };
+
+const decodeTrack = (reader: Reader, end: number): TickEvent[] => {
+  const events: TickEvent[] = [];
+  let tick = 0;
+  let runningStatus: number | null = null;
+
+  while (reader.pos < end) {
+    tick += readVariableLength(reader);
+    let status = reader.data[reader.pos];
+
+    if (status & 0x80) {
+      reader.pos++;
+    } else if (runningStatus !== null) {
+      status = runningStatus; // Data byte: reuse the previous status
+    } else {
+      throw new Error('Running status without a preceding status byte');
+    }
+
+    if (status === META_EVENT) {
+      const type = readUint8(reader);
+      const length = readVariableLength(reader);
+      if (type === META_TEMPO && length === 3) {
+        const microsecondsPerQuarter = (readUint8(reader) << 16) | (readUint8(reader) << 8) | readUint8(reader);
+        events.push({ kind: 'tempo', tick, microsecondsPerQuarter });
+      } else {
+        reader.pos += length;
+      }
+      if (type === META_END_OF_TRACK) break;
+      continue;
+    }
+
+    if (status === SYSEX_START || status === SYSEX_ESCAPE) {
+      reader.pos += readVariableLength(reader);
+      runningStatus = null;
+      continue;
+    }
+
+    runningStatus = status;
+    const messageType = status & 0xf0;
+    const data1 = readUint8(reader);
+    // Program change and channel pressure carry a single data byte
+    const data2 = messageType === PROGRAM_CHANGE || messageType === CHANNEL_PRESSURE ? 0 : readUint8(reader);
+
+    if (messageType === NOTE_ON) {
+      events.push({ kind: 'note', tick, midi: data1, velocity: data2 });
+    } else if (messageType === NOTE_OFF) {
+      events.push({ kind: 'note', tick, midi: data1, velocity: 0 });
+    } else if (messageType === CONTROL_CHANGE) {
+      const pedal = getPedalForController(data1);
+      if (pedal) events.push({ kind: 'pedal', tick, pedal, value: data2 });
+    }
+  }
+
+  reader.pos = end;
+  return events;
+};
+
+// Build a tick -> seconds converter from every tempo change in the file
+const createTickConverter = (division: number, tempoEvents: { tick: number; microsecondsPerQuarter: number }[]) => {
+  // Negative division means SMPTE timing: frames per second and ticks per frame
+  if (division & 0x8000) {
+    const framesPerSecond = 256 - (division >> 8);
+    const ticksPerFrame = division & 0xff;
+    return (tick: number) => tick / (framesPerSecond * ticksPerFrame);
+  }
+
+  const tempos = [...tempoEvents].sort((a, b) => a.tick - b.tick);
+  return (tick: number) => {
+    let seconds = 0;
+    let lastTick = 0;
+    let microsecondsPerQuarter = MICROSECONDS_PER_MINUTE / DEFAULT_BPM;
+    for (const tempo of tempos) {
+      if (tempo.tick >= tick) break;
+      seconds += ((tempo.tick - lastTick) / division) * microsecondsPerQuarter / 1e6;
+      lastTick = tempo.tick;
+      microsecondsPerQuarter = tempo.microsecondsPerQuarter;
+    }
+    return seconds + ((tick - lastTick) / division) * microsecondsPerQuarter / 1e6;
+  };
+};
+
+export const decodeMidiFile = (data: Uint8Array): DecodedMidiFile => {
+  const reader: Reader = { data, pos: 0 };
+
+  if (readAscii(reader, 4) !== 'MThd') {
+    throw new Error('Not a Standard MIDI File');
+  }
+  const headerLength = readUint32(reader);
+  const headerEnd = reader.pos + headerLength;
+  const format = readUint16(reader);
+  const trackCount = readUint16(reader);
+  const division = readUint16(reader);
+  reader.pos = headerEnd;
+
+  if (format > 2) {
+    throw new Error(`Unsupported MIDI file format ${format}`);
+  }
+
+  const rawTracks: TickEvent[][] = [];
+  while (rawTracks.length < trackCount && reader.pos < data.length) {
+    const type = readAscii(reader, 4);
+    const length = readUint32(reader);
+    const end = Math.min(reader.pos + length, data.length);
+    if (type === 'MTrk') {
+      rawTracks.push(decodeTrack(reader, end));
+    } else {
+      reader.pos = end; // Skip unknown chunks as the spec requires
+    }
+  }
+
+  const tempoEvents = rawTracks.flat().flatMap(event => event.kind === 'tempo' ? [event] : []);
+  const toSeconds = createTickConverter(division, tempoEvents);
+
+  const tracks = rawTracks.map(rawEvents => rawEvents.flatMap((event): PerformanceEvent[] => {
+    const time = toSeconds(event.tick);
+    if (event.kind === 'note') {
+      return event.velocity > 0
+        ? [{ type: 'noteOn', time, midi: event.midi, velocity: event.velocity / 127 }]
+        : [{ type: 'noteOff', time, midi: event.midi }];
+    }
+    if (event.kind === 'pedal') {
+      return [{ type: 'pedal', time, pedal: event.pedal, value: event.value / 127 }];
+    }
+    return [];
+  }));
+
+  const events = sortEvents(tracks.flat());
+  const firstTempo = [...tempoEvents].sort((a, b) => a.tick - b.tick)[0];
+
+  return {
+    format,
+    bpm: firstTempo ? Math.round(MICROSECONDS_PER_MINUTE / firstTempo.microsecondsPerQuarter) : DEFAULT_BPM,
+    tracks: tracks.filter(track => track.length > 0),
+    events,
+    duration: getPerformanceDuration(events),
+  };
+};
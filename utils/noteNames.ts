@@ -0,0 +1,104 @@
+import { KeySignature, NoteNaming } from '../types';
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const SOLFEGE = ['Do', 'Re', 'Mi', 'Fa', 'Sol', 'La', 'Si'];
+const LETTER_PITCHES = [0, 2, 4, 5, 7, 9, 11];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+
+// Major keys (with their relative minors) around the circle of fifths
+export const KEY_SIGNATURES: KeySignature[] = [
+  { id: 'Cb', name: 'C♭ / A♭m', tonic: 11, tonicLetter: 0, accidentals: -7 },
+  { id: 'Gb', name: 'G♭ / E♭m', tonic: 6, tonicLetter: 4, accidentals: -6 },
+  { id: 'Db', name: 'D♭ / B♭m', tonic: 1, tonicLetter: 1, accidentals: -5 },
+  { id: 'Ab', name: 'A♭ / Fm', tonic: 8, tonicLetter: 5, accidentals: -4 },
+  { id: 'Eb', name: 'E♭ / Cm', tonic: 3, tonicLetter: 2, accidentals: -3 },
+  { id: 'Bb', name: 'B♭ / Gm', tonic: 10, tonicLetter: 6, accidentals: -2 },
+  { id: 'F', name: 'F / Dm', tonic: 5, tonicLetter: 3, accidentals: -1 },
+  { id: 'C', name: 'C / Am', tonic: 0, tonicLetter: 0, accidentals: 0 },
+  { id: 'G', name: 'G / Em', tonic: 7, tonicLetter: 4, accidentals: 1 },
+  { id: 'D', name: 'D / Bm', tonic: 2, tonicLetter: 1, accidentals: 2 },
+  { id: 'A', name: 'A / F♯m', tonic: 9, tonicLetter: 5, accidentals: 3 },
+  { id: 'E', name: 'E / C♯m', tonic: 4, tonicLetter: 2, accidentals: 4 },
+  { id: 'B', name: 'B / G♯m', tonic: 11, tonicLetter: 6, accidentals: 5 },
+  { id: 'F#', name: 'F♯ / D♯m', tonic: 6, tonicLetter: 3, accidentals: 6 },
+  { id: 'C#', name: 'C♯ / A♯m', tonic: 1, tonicLetter: 0, accidentals: 7 },
+];
+
+export const DEFAULT_KEY_SIGNATURE_ID = 'C';
+
+export const NOTE_NAMINGS: { id: NoteNaming; label: string }[] = [
+  { id: 'letter', label: 'C D E' },
+  { id: 'solfege', label: 'Do Re Mi' },
+  { id: 'german', label: 'C D H' },
+];
+
+export const getKeySignatureById = (id: string) => KEY_SIGNATURES.find(key => key.id === id) || KEY_SIGNATURES[7];
+
+interface Spelling {
+  letter: number; // 0 = C ... 6 = B
+  accidental: number; // Semitones: -1 flat, +1 sharp
+}
+
+// How each pitch class is written in a key: scale notes take the signature's
+// spelling (so F♯ major has E♯); other notes are natural where possible,
+// otherwise sharp in sharp keys and flat in flat keys
+const getKeySpelling = (key: KeySignature): Spelling[] => {
+  const spelling: Spelling[] = new Array(12);
+  MAJOR_SCALE.forEach((step, degree) => {
+    const pitchClass = (key.tonic + step) % 12;
+    const letter = (key.tonicLetter + degree) % 7;
+    const accidental = ((pitchClass - LETTER_PITCHES[letter] + 18) % 12) - 6;
+    spelling[pitchClass] = { letter, accidental };
+  });
+
+  for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+    if (spelling[pitchClass]) continue;
+    const natural = LETTER_PITCHES.indexOf(pitchClass);
+    if (natural >= 0) {
+      spelling[pitchClass] = { letter: natural, accidental: 0 };
+    } else if (key.accidentals < 0) {
+      spelling[pitchClass] = { letter: LETTER_PITCHES.indexOf((pitchClass + 1) % 12), accidental: -1 };
+    } else {
+      spelling[pitchClass] = { letter: LETTER_PITCHES.indexOf((pitchClass + 11) % 12), accidental: 1 };
+    }
+  }
+  return spelling;
+};
+
+const formatAccidental = (accidental: number) => (accidental > 0 ? '♯' : '♭').repeat(Math.abs(accidental));
+
+// German names: H is B natural, B is B flat; sharps add "-is", flats "-es" (Es, As)
+const formatGerman = ({ letter, accidental }: Spelling) => {
+  if (letter === 6 && accidental === -1) return 'B';
+  const base = letter === 6 ? 'H' : LETTERS[letter];
+  if (accidental > 0) return base + 'is'.repeat(accidental);
+  if (accidental < 0) {
+    const isVowel = base === 'E' || base === 'A';
+    return base + (isVowel ? 's' : 'es') + 'es'.repeat(-accidental - 1);
+  }
+  return base;
+};
+
+const formatSpelling = (spelling: Spelling, naming: NoteNaming) => {
+  switch (naming) {
+    case 'german': return formatGerman(spelling);
+    case 'solfege': return SOLFEGE[spelling.letter] + formatAccidental(spelling.accidental);
+    default: return LETTERS[spelling.letter] + formatAccidental(spelling.accidental);
+  }
+};
+
+// Names of the 12 pitch classes without octave, e.g. for chord symbols
+export const getPitchClassNames = (key: KeySignature, naming: NoteNaming): string[] => {
+  return getKeySpelling(key).map(spelling => formatSpelling(spelling, naming));
+};
+
+// Name of every MIDI note with its octave (C4 = middle C), spelled for the key.
+// The octave follows the letter, so B♯3 and C♭5 sit either side of their pitch.
+export const getNoteNames = (key: KeySignature, naming: NoteNaming): string[] => {
+  const spelling = getKeySpelling(key);
+  return Array.from({ length: 128 }, (_, midi) => {
+    const noteSpelling = spelling[midi % 12];
+    const octave = Math.floor((midi - noteSpelling.accidental) / 12) - 1;
+    return `${formatSpelling(noteSpelling, naming)}${octave}`;
+  });
+};
@@ -0,0 +1,74 @@
+import { EffectSettings, EnvelopeSettings, FilterSettings, LfoSettings, PerformanceEvent, PolyphonySettings, SampleSet, StringModelSettings, SynthPreset, TuningSettings, VoiceType } from '../types';
+import { createSynthEngine } from './synthEngine';
+import { getPerformanceDuration } from './performance';
+import { createEffectsRack, getEffectsTailTime } from './effects';
+import { loadStringModel } from './stringVoice';
+import { getMaxDamperReleaseTime } from './pedals';
+
+// Everything that shapes the sound, mirroring the live synth's settings
+export interface RenderOptions {
+  voiceType: VoiceType;
+  preset: SynthPreset;
+  sampleSet: SampleSet | null;
+  stringModel: StringModelSettings;
+  tuning: TuningSettings;
+  envelope: EnvelopeSettings;
+  filter: FilterSettings;
+  lfos: LfoSettings[];
+  volume: number; // 0-10, as on the volume control
+  polyphony: PolyphonySettings;
+  effects: EffectSettings[];
+  tempo: number; // For tempo-synced effects and LFOs
+  sampleRate?: number;
+}
+
+// Extra time after the last event so release tails aren't cut off
+const TAIL_PADDING = 0.5;
+
+// Notes let go under a half-lifted damper can ring well past the envelope's
+// release, so leave room for the slowest damper release the engine applies
+const getReleaseTailTime = (events: PerformanceEvent[], envelope: EnvelopeSettings) => {
+  const usesDamper = events.some(event => event.type === 'pedal' && event.pedal === 'sustain' && event.value > 0);
+  return usesDamper ? getMaxDamperReleaseTime(envelope.release) : envelope.release;
+};
+
+// Re-render a performance faster than realtime through the same engine the live synth uses
+export const renderPerformance = async (events: PerformanceEvent[], options: RenderOptions): Promise<AudioBuffer> => {
+  const { voiceType, preset, sampleSet, stringModel, tuning, envelope, filter, lfos, volume, polyphony, effects, tempo, sampleRate = 44100 } = options;
+  const duration = getPerformanceDuration(events) + getReleaseTailTime(events, envelope) + getEffectsTailTime(effects, tempo) + TAIL_PADDING;
+  const ctx = new OfflineAudioContext(2, Math.ceil(duration * sampleRate), sampleRate);
+
+  if (voiceType === 'string') {
+    await loadStringModel(ctx);
+  }
+
+  const masterGain = ctx.createGain();
+  masterGain.gain.value = Math.min(1, Math.max(0, volume / 10));
+  const effectsRack = createEffectsRack(ctx, ctx.destination);
+  effectsRack.setEffects(effects, tempo);
+  masterGain.connect(effectsRack.input);
+
+  const engine = createSynthEngine(ctx, masterGain);
+  engine.setVoiceType(voiceType);
+  engine.setPreset(preset);
+  engine.setSampleSet(sampleSet);
+  engine.setStringModel(stringModel);
+  engine.setTuning(tuning);
+  engine.setEnvelope(envelope);
+  engine.setFilter(filter);
+  engine.setLfos(lfos, tempo);
+  engine.setPolyphony(polyphony);
+
+  // Everything can be scheduled up front: the offline clock doesn't move until rendering starts
+  events.forEach((event) => {
+    if (event.type === 'noteOn') {
+      engine.playNote(event.midi, event.velocity, event.time);
+    } else if (event.type === 'noteOff') {
+      engine.stopNote(event.midi, event.time);
+    } else {
+      engine.setPedal(event.pedal, event.value, event.time);
+    }
+  });
+
+  return ctx.startRendering();
+};
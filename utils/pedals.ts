@@ -0,0 +1,37 @@
+import { PedalState, PedalType } from '../types';
+
+export const PEDALS_UP: PedalState = { sustain: 0, sostenuto: 0, soft: 0 };
+
+export const PEDAL_NAMES: { [P in PedalType]: string } = {
+  sustain: 'Sustain',
+  sostenuto: 'Sostenuto',
+  soft: 'Soft',
+};
+
+// Damper pedal depth zones. Below DAMPER_CONTACT the dampers rest on the strings;
+// above FULL_PEDAL they are clear of them. In between (half pedal) the dampers
+// brush the strings and released notes die away more slowly the deeper the pedal.
+export const DAMPER_CONTACT = 0.1;
+export const FULL_PEDAL = 0.9;
+const HALF_PEDAL_MAX_RELEASE = 6; // Seconds, just short of full pedal
+
+// Sostenuto and soft pedals are on/off on most pianos
+export const isPedalDown = (value: number) => value >= 0.5;
+
+// Longest a released note can take to die away while the dampers still touch the strings
+export const getMaxDamperReleaseTime = (baseRelease: number) => Math.max(baseRelease, HALF_PEDAL_MAX_RELEASE);
+
+// Decay time for an undamped note at the given sustain depth; Infinity means it rings freely
+export const getDamperReleaseTime = (depth: number, baseRelease: number): number => {
+  if (depth >= FULL_PEDAL) return Infinity;
+  if (depth < DAMPER_CONTACT) return baseRelease;
+  const lift = (depth - DAMPER_CONTACT) / (FULL_PEDAL - DAMPER_CONTACT);
+  return baseRelease + (getMaxDamperReleaseTime(baseRelease) - baseRelease) * lift * lift;
+};
+
+// Una corda: hammers strike fewer strings, so notes are quieter and duller
+const SOFT_PEDAL_LEVEL = 0.7;
+const SOFT_PEDAL_BRIGHTNESS = 0.5;
+
+export const getSoftPedalLevel = (depth: number) => 1 - (1 - SOFT_PEDAL_LEVEL) * depth;
+export const getSoftPedalBrightness = (depth: number) => 1 - (1 - SOFT_PEDAL_BRIGHTNESS) * depth;
@@ -0,0 +1,36 @@
+import { PedalType, PerformanceEvent } from '../types';
+
+export const sortEvents = (events: PerformanceEvent[]): PerformanceEvent[] => {
+  // Stable sort keeps a note-off ahead of a same-time note-on as recorded
+  return [...events].sort((a, b) => a.time - b.time);
+};
+
+export const getPerformanceDuration = (events: PerformanceEvent[]): number => {
+  return events.reduce((max, event) => Math.max(max, event.time), 0);
+};
+
+// Append note-offs (and pedal releases) for anything still held when a take ends,
+// so playback never leaves hanging notes.
+export const closeOpenNotes = (events: PerformanceEvent[], endTime: number): PerformanceEvent[] => {
+  const sorted = sortEvents(events);
+  const heldNotes = new Set<number>();
+  const pedalValues = new Map<PedalType, number>();
+
+  sorted.forEach((event) => {
+    if (event.type === 'noteOn') heldNotes.add(event.midi);
+    else if (event.type === 'noteOff') heldNotes.delete(event.midi);
+    else pedalValues.set(event.pedal, event.value);
+  });
+
+  const closing: PerformanceEvent[] = [];
+  heldNotes.forEach(midi => closing.push({ type: 'noteOff', time: endTime, midi }));
+  pedalValues.forEach((value, pedal) => {
+    if (value > 0) closing.push({ type: 'pedal', time: endTime, pedal, value: 0 });
+  });
+
+  return [...sorted, ...closing];
+};
+
+export const mergePerformances = (a: PerformanceEvent[], b: PerformanceEvent[]): PerformanceEvent[] => {
+  return sortEvents([...a, ...b]);
+};
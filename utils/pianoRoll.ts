@@ -0,0 +1,70 @@
+import { PerformanceEvent } from '../types';
+
+// A played note as a bar on the piano roll
+export interface NoteSpan {
+  midi: number;
+  start: number; // Seconds
+  end: number;
+  velocity: number; // 0-1
+}
+
+// Pair note-ons with their note-offs; spans come out sorted by start time
+export const getNoteSpans = (events: PerformanceEvent[]): NoteSpan[] => {
+  const open = new Map<number, { start: number; velocity: number }>();
+  const spans: NoteSpan[] = [];
+  events.forEach((event) => {
+    if (event.type === 'noteOn') {
+      open.set(event.midi, { start: event.time, velocity: event.velocity });
+    } else if (event.type === 'noteOff') {
+      const note = open.get(event.midi);
+      if (!note) return;
+      spans.push({ midi: event.midi, start: note.start, end: event.time, velocity: note.velocity });
+      open.delete(event.midi);
+    }
+  });
+  return spans.sort((a, b) => a.start - b.start);
+};
+
+// Index of the first span starting after `time` (spans sorted by start)
+export const findSpanAfter = (spans: NoteSpan[], time: number) => {
+  let low = 0;
+  let high = spans.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (spans[mid].start <= time) low = mid + 1; else high = mid;
+  }
+  return low;
+};
+
+// Notes played live, kept outside React state so the visualizer can read them every frame
+export interface NoteTrail {
+  noteOn: (midi: number, velocity: number, time: number) => void;
+  noteOff: (midi: number, time: number) => void;
+  getSpans: (now: number) => NoteSpan[]; // Held notes run up to `now`
+  prune: (before: number) => void; // Forget notes that ended before this time
+}
+
+export const createNoteTrail = (): NoteTrail => {
+  const held = new Map<number, { start: number; velocity: number }>();
+  let finished: NoteSpan[] = [];
+
+  return {
+    noteOn: (midi, velocity, time) => {
+      held.set(midi, { start: time, velocity });
+    },
+    noteOff: (midi, time) => {
+      const note = held.get(midi);
+      if (!note) return;
+      finished.push({ midi, start: note.start, end: time, velocity: note.velocity });
+      held.delete(midi);
+    },
+    getSpans: (now) => {
+      const spans = [...finished];
+      held.forEach((note, midi) => spans.push({ midi, start: note.start, end: now, velocity: note.velocity }));
+      return spans;
+    },
+    prune: (before) => {
+      finished = finished.filter(span => span.end >= before);
+    },
+  };
+};
@@ -0,0 +1,69 @@
+import { SynthPreset } from '../types';
+
+export const DEFAULT_PRESET_ID = 'classic';
+
+export const SYNTH_PRESETS: SynthPreset[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    // Triangle provides a slightly warmer, piano-like tone than sine
+    oscillators: [
+      { waveform: 'triangle', detune: 0, octave: 0, level: 1 },
+    ],
+  },
+  {
+    id: 'soft-sine',
+    name: 'Soft Sine',
+    oscillators: [
+      { waveform: 'sine', detune: 0, octave: 0, level: 1 },
+      { waveform: 'sine', detune: 0, octave: 1, level: 0.15 },
+    ],
+  },
+  {
+    id: 'electric-piano',
+    name: 'Electric Piano',
+    oscillators: [
+      { waveform: 'sine', detune: 0, octave: 0, level: 0.8 },
+      { waveform: 'custom', harmonics: [1, 0, 0.3, 0, 0, 0.2, 0, 0.1], detune: 3, octave: 1, level: 0.35 },
+    ],
+  },
+  {
+    id: 'organ',
+    name: 'Drawbar Organ',
+    // Roughly 88 8000 000 drawbar registration
+    oscillators: [
+      { waveform: 'custom', harmonics: [1, 1, 0.8, 0.6, 0, 0.4, 0, 0.3], detune: 0, octave: 0, level: 1 },
+      { waveform: 'sine', detune: 0, octave: -1, level: 0.6 },
+    ],
+  },
+  {
+    id: 'supersaw',
+    name: 'Supersaw',
+    oscillators: [
+      { waveform: 'sawtooth', detune: -12, octave: 0, level: 0.6 },
+      { waveform: 'sawtooth', detune: 0, octave: 0, level: 0.6 },
+      { waveform: 'sawtooth', detune: 12, octave: 0, level: 0.6 },
+    ],
+  },
+  {
+    id: 'chiptune',
+    name: 'Chiptune',
+    oscillators: [
+      { waveform: 'square', detune: 0, octave: 0, level: 0.7 },
+      { waveform: 'square', detune: 5, octave: 1, level: 0.2 },
+    ],
+  },
+  {
+    id: 'warm-pad',
+    name: 'Warm Pad',
+    oscillators: [
+      { waveform: 'triangle', detune: -7, octave: 0, level: 0.7 },
+      { waveform: 'sawtooth', detune: 7, octave: 0, level: 0.25 },
+      { waveform: 'sine', detune: 0, octave: -1, level: 0.5 },
+    ],
+  },
+];
+
+export const getPresetById = (id: string): SynthPreset => {
+  return SYNTH_PRESETS.find(preset => preset.id === id) || SYNTH_PRESETS[0];
+};
@@ -0,0 +1,219 @@
+import { SampleSet, SampleZone, VoiceGraph } from '../types';
+import { NOTE_NAMES } from './constants';
+
+// Sample map file (JSON) shipped alongside the audio files of a sample pack:
+//
+//   { "name": "Grand", "samples": [
+//     { "file": "C4-soft.wav", "root": "C4", "low": 58, "high": 62,
+//       "velocityLow": 1, "velocityHigh": 80, "loopStart": 1.2, "loopEnd": 2.4 } ] }
+//
+// `root`, `low` and `high` take MIDI numbers or note names; velocities use the
+// MIDI 1-127 scale and loop points are in seconds. Only `file` and `root` are
+// required: missing key ranges are filled in halfway to the neighbouring samples.
+interface SampleMapEntry {
+  file: string;
+  root: number;
+  low?: number;
+  high?: number;
+  velocityLow: number;
+  velocityHigh: number;
+  loopStart?: number;
+  loopEnd?: number;
+}
+
+interface SampleMap {
+  name?: string;
+  samples: SampleMapEntry[];
+}
+
+const FLAT_NAMES: { [name: string]: number } = { Db: 1, Eb: 3, Gb: 6, Ab: 8, Bb: 10 };
+
+// "C4", "F#3", "Bb2" (C4 = 60), or a plain MIDI number
+export const parseNoteName = (value: string | number): number | null => {
+  if (typeof value === 'number') return Number.isInteger(value) && value >= 0 && value <= 127 ? value : null;
+  const match = /^([A-Ga-g])([#b]?)(-?\d)$/.exec(value.trim());
+  if (!match) {
+    const midi = Number(value);
+    return Number.isInteger(midi) && midi >= 0 && midi <= 127 ? midi : null;
+  }
+  const name = match[1].toUpperCase() + match[2];
+  const pitchClass = name in FLAT_NAMES ? FLAT_NAMES[name] : NOTE_NAMES.indexOf(name);
+  if (pitchClass < 0) return null;
+  const midi = (parseInt(match[3]) + 1) * 12 + pitchClass;
+  return midi >= 0 && midi <= 127 ? midi : null;
+};
+
+const readNote = (value: unknown, field: string, file: string): number => {
+  const midi = typeof value === 'string' || typeof value === 'number' ? parseNoteName(value) : null;
+  if (midi === null) throw new Error(`Invalid ${field} for "${file}" in sample map`);
+  return midi;
+};
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readNumber = (value: unknown, field: string, file: string): number | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`Invalid ${field} for "${file}" in sample map`);
+  return value;
+};
+
+const readVelocity = (value: unknown, field: string, file: string, fallback: number): number => {
+  const velocity = readNumber(value, field, file) ?? fallback;
+  if (velocity < 1 || velocity > 127) throw new Error(`Invalid ${field} for "${file}" in sample map`);
+  return velocity;
+};
+
+const readSampleMapEntry = (entry: unknown, index: number): SampleMapEntry => {
+  if (!isRecord(entry) || typeof entry.file !== 'string') {
+    throw new Error(`Sample ${index + 1} in the sample map needs a "file" name`);
+  }
+  const { file } = entry;
+  return {
+    file,
+    root: readNote(entry.root, 'root', file),
+    low: entry.low !== undefined ? readNote(entry.low, 'low', file) : undefined,
+    high: entry.high !== undefined ? readNote(entry.high, 'high', file) : undefined,
+    velocityLow: readVelocity(entry.velocityLow, 'velocityLow', file, 1),
+    velocityHigh: readVelocity(entry.velocityHigh, 'velocityHigh', file, 127),
+    loopStart: readNumber(entry.loopStart, 'loopStart', file),
+    loopEnd: readNumber(entry.loopEnd, 'loopEnd', file),
+  };
+};
+
+export const parseSampleMap = (text: string): SampleMap => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Sample map is not valid JSON');
+  }
+  if (!isRecord(data) || !Array.isArray(data.samples)) {
+    throw new Error('Sample map needs a "samples" list');
+  }
+  const { name } = data;
+  if (name !== undefined && typeof name !== 'string') {
+    throw new Error('Sample map "name" must be text');
+  }
+
+  return { name: name as string | undefined, samples: data.samples.map(readSampleMapEntry) };
+};
+
+// Without a map, take the root note from each file name (e.g. "Piano_F#3.wav")
+export const inferSampleMap = (fileNames: string[]): SampleMap => {
+  const samples = fileNames.flatMap((file): SampleMapEntry[] => {
+    const base = file.replace(/\.[^.]+$/, '');
+    const match = /(^|[^A-Za-z])([A-Ga-g][#b]?-?\d)(?!\d)/.exec(base);
+    const root = match ? parseNoteName(match[2]) : null;
+    return root === null ? [] : [{ file, root, velocityLow: 1, velocityHigh: 127 }];
+  });
+  if (samples.length === 0) {
+    throw new Error('No sample map, and no note names (like C4) found in the file names');
+  }
+  return { samples };
+};
+
+// Give samples without an explicit key range the keys up to halfway to their
+// neighbours in the same velocity layer, so the whole keyboard is covered
+const fillKeyRanges = (samples: SampleMapEntry[]): SampleMapEntry[] => {
+  return samples.map((sample) => {
+    if (sample.low !== undefined && sample.high !== undefined) return sample;
+    const layerRoots = samples
+      .filter(other => other.velocityLow === sample.velocityLow && other.velocityHigh === sample.velocityHigh)
+      .map(other => other.root)
+      .sort((a, b) => a - b);
+    const index = layerRoots.indexOf(sample.root);
+    const below = layerRoots[index - 1];
+    const above = layerRoots[index + 1];
+    return {
+      ...sample,
+      low: sample.low ?? (below === undefined ? 0 : Math.floor((below + sample.root) / 2) + 1),
+      high: sample.high ?? (above === undefined ? 127 : Math.floor((sample.root + above) / 2)),
+    };
+  });
+};
+
+// Decode a sample pack chosen by the user: an optional .json map plus audio files
+export const loadSampleSet = async (
+  files: File[],
+  decode: (data: ArrayBuffer) => Promise<AudioBuffer>
+): Promise<SampleSet> => {
+  const mapFile = files.find(file => file.name.toLowerCase().endsWith('.json'));
+  const audioFiles = files.filter(file => file !== mapFile);
+  const map = mapFile ? parseSampleMap(await mapFile.text()) : inferSampleMap(audioFiles.map(file => file.name));
+
+  const findFile = (name: string) => {
+    const wanted = name.split('/').pop()!.toLowerCase();
+    return audioFiles.find(file => file.name.toLowerCase() === wanted);
+  };
+
+  const zones = await Promise.all(fillKeyRanges(map.samples).map(async (sample): Promise<SampleZone> => {
+    const file = findFile(sample.file);
+    if (!file) throw new Error(`Sample "${sample.file}" was not among the selected files`);
+    const hasLoop = sample.loopStart !== undefined && sample.loopEnd !== undefined && sample.loopEnd > sample.loopStart;
+    return {
+      buffer: await decode(await file.arrayBuffer()),
+      rootNote: sample.root,
+      lowNote: sample.low!,
+      highNote: sample.high!,
+      lowVelocity: sample.velocityLow / 127,
+      highVelocity: sample.velocityHigh / 127,
+      loopStart: hasLoop ? sample.loopStart : undefined,
+      loopEnd: hasLoop ? sample.loopEnd : undefined,
+    };
+  }));
+
+  const fallbackName = mapFile ? mapFile.name.replace(/\.json$/i, '') : 'Samples';
+  return { id: `samples-${Date.now()}`, name: map.name || fallbackName, zones };
+};
+
+// Pick the zone for a note: matching velocity layer first, then the zone whose
+// key range contains the note, otherwise the nearest root (pitch-shifted to fit)
+export const findSampleZone = (sampleSet: SampleSet, midi: number, velocity: number): SampleZone | null => {
+  const layer = sampleSet.zones.filter(zone => velocity >= zone.lowVelocity && velocity <= zone.highVelocity);
+  const candidates = layer.length > 0 ? layer : sampleSet.zones;
+  const inRange = candidates.filter(zone => midi >= zone.lowNote && midi <= zone.highNote);
+  const pool = inRange.length > 0 ? inRange : candidates;
+
+  return pool.reduce<SampleZone | null>((best, zone) => {
+    if (!best) return zone;
+    return Math.abs(zone.rootNote - midi) < Math.abs(best.rootNote - midi) ? zone : best;
+  }, null);
+};
+
+// The soft pedal darkens samples through a low-pass; each step below full brightness closes it further
+const getSampleToneCutoff = (brightness: number) => 20000 * Math.pow(2, -6 * (1 - brightness));
+
+// Build (and start) a sample voice, pitch-shifted from the zone's root note.
+// Like createVoice, the caller owns the amplitude envelope on `output`.
+export const createSampleVoice = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  midi: number,
+  zone: SampleZone,
+  brightness: number,
+  startTime: number
+): VoiceGraph => {
+  const output = ctx.createGain();
+  output.connect(destination);
+
+  const toneFilter = ctx.createBiquadFilter();
+  toneFilter.type = 'lowpass';
+  toneFilter.Q.setValueAtTime(0, startTime);
+  toneFilter.frequency.setValueAtTime(getSampleToneCutoff(brightness), startTime);
+  toneFilter.connect(output);
+
+  const source = ctx.createBufferSource();
+  source.buffer = zone.buffer;
+  source.playbackRate.setValueAtTime(Math.pow(2, (midi - zone.rootNote) / 12), startTime);
+  if (zone.loopStart !== undefined && zone.loopEnd !== undefined) {
+    source.loop = true;
+    source.loopStart = zone.loopStart;
+    source.loopEnd = zone.loopEnd;
+  }
+  source.connect(toneFilter);
+  source.start(startTime);
+
+  return { sources: [source], nodes: [toneFilter], output, detune: [source.detune] };
+};
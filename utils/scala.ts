@@ -0,0 +1,64 @@
+import { KeyboardMapping, ScalaScale } from '../types';
+
+// Parsers for the Scala tuning file formats:
+// https://www.huygens-fokker.org/scala/scl_format.html
+
+// Non-comment lines; '!' starts a comment line
+const readLines = (text: string) => text.split(/\r?\n/).filter(line => !line.trimStart().startsWith('!'));
+
+// "701.955" is in cents (has a dot); "3/2" and "2" are ratios
+const parsePitch = (value: string): number => {
+  const token = value.trim().split(/\s+/)[0];
+  if (token.includes('.')) {
+    const cents = parseFloat(token);
+    if (isNaN(cents)) throw new Error(`Invalid pitch "${token}" in scale`);
+    return cents;
+  }
+  const [numerator, denominator = '1'] = token.split('/');
+  const ratio = parseInt(numerator) / parseInt(denominator);
+  if (!isFinite(ratio) || ratio <= 0) throw new Error(`Invalid pitch "${token}" in scale`);
+  return 1200 * Math.log2(ratio);
+};
+
+export const parseScalaScale = (text: string): ScalaScale => {
+  const lines = readLines(text);
+  if (lines.length < 2) throw new Error('Scale file is missing its header');
+
+  const description = lines[0].trim();
+  const count = parseInt(lines[1].trim());
+  if (isNaN(count) || count < 1) throw new Error('Scale file has no notes');
+
+  const pitchLines = lines.slice(2).filter(line => line.trim() !== '');
+  if (pitchLines.length < count) throw new Error(`Scale file lists ${pitchLines.length} of ${count} notes`);
+
+  return { description, cents: pitchLines.slice(0, count).map(parsePitch) };
+};
+
+export const parseKeyboardMapping = (text: string): KeyboardMapping => {
+  const lines = readLines(text).map(line => line.trim()).filter(line => line !== '');
+  const readInt = (index: number, field: string) => {
+    const value = parseInt(lines[index]);
+    if (isNaN(value)) throw new Error(`Keyboard mapping has an invalid ${field}`);
+    return value;
+  };
+
+  if (lines.length < 7) throw new Error('Keyboard mapping is missing its header');
+  const size = readInt(0, 'map size');
+  const referenceFrequency = parseFloat(lines[5]);
+  if (!(referenceFrequency > 0)) throw new Error('Keyboard mapping has an invalid reference frequency');
+
+  const mapping = lines.slice(7, 7 + size).map(entry => entry.toLowerCase().startsWith('x') ? null : parseInt(entry));
+  // Missing trailing entries are unmapped
+  while (mapping.length < size) mapping.push(null);
+
+  return {
+    size,
+    firstNote: readInt(1, 'first note'),
+    lastNote: readInt(2, 'last note'),
+    middleNote: readInt(3, 'middle note'),
+    referenceNote: readInt(4, 'reference note'),
+    referenceFrequency,
+    octaveDegree: readInt(6, 'octave degree'),
+    mapping: mapping.map(degree => degree === null || isNaN(degree) ? null : degree),
+  };
+};
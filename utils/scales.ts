@@ -0,0 +1,50 @@
+import { KeyHighlight, KeyOverlay } from '../types';
+import { CHORD_SHAPES } from './chords';
+
+export const SCALES: { id: string; name: string; intervals: number[] }[] = [
+  { id: 'major', name: 'Major (Ionian)', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  { id: 'natural-minor', name: 'Natural Minor (Aeolian)', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  { id: 'harmonic-minor', name: 'Harmonic Minor', intervals: [0, 2, 3, 5, 7, 8, 11] },
+  { id: 'melodic-minor', name: 'Melodic Minor', intervals: [0, 2, 3, 5, 7, 9, 11] },
+  { id: 'dorian', name: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  { id: 'phrygian', name: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  { id: 'lydian', name: 'Lydian', intervals: [0, 2, 4, 6, 7, 9, 11] },
+  { id: 'mixolydian', name: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10] },
+  { id: 'locrian', name: 'Locrian', intervals: [0, 1, 3, 5, 6, 8, 10] },
+  { id: 'major-pentatonic', name: 'Major Pentatonic', intervals: [0, 2, 4, 7, 9] },
+  { id: 'minor-pentatonic', name: 'Minor Pentatonic', intervals: [0, 3, 5, 7, 10] },
+  { id: 'blues', name: 'Blues', intervals: [0, 3, 5, 6, 7, 10] },
+];
+
+export const DEFAULT_OVERLAY: KeyOverlay = {
+  mode: 'off',
+  root: 0,
+  scaleId: 'major',
+  chordSymbol: '',
+  lockToScale: false,
+};
+
+const getOverlayIntervals = (overlay: KeyOverlay) => {
+  if (overlay.mode === 'scale') return (SCALES.find(scale => scale.id === overlay.scaleId) || SCALES[0]).intervals;
+  if (overlay.mode === 'chord') return (CHORD_SHAPES.find(shape => shape.symbol === overlay.chordSymbol) || CHORD_SHAPES[0]).intervals;
+  return null;
+};
+
+// Role of each pitch class in the guide, or null when the guide is off
+export const getKeyHighlights = (overlay: KeyOverlay): (KeyHighlight | null)[] | null => {
+  const intervals = getOverlayIntervals(overlay);
+  if (!intervals) return null;
+  const highlights: (KeyHighlight | null)[] = new Array(12).fill(null);
+  intervals.forEach(interval => { highlights[(overlay.root + interval) % 12] = 'member'; });
+  highlights[overlay.root] = 'root';
+  return highlights;
+};
+
+// Nearest note in the guide; ties go down, so a black key between two members plays the lower one
+export const snapToOverlay = (midi: number, highlights: (KeyHighlight | null)[]) => {
+  for (let distance = 0; distance < 12; distance++) {
+    if (highlights[(midi - distance + 120) % 12]) return midi - distance;
+    if (highlights[(midi + distance) % 12]) return midi + distance;
+  }
+  return midi;
+};
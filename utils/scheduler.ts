@@ -0,0 +1,94 @@
+// Lookahead scheduling: a coarse JS timer wakes up regularly and queues Web Audio
+// events slightly ahead of the audio clock. The timer only decides *when to look*;
+// the events themselves are placed on the AudioContext timeline, so timing stays
+// sample-accurate even when the main thread is busy.
+
+const DEFAULT_INTERVAL_MS = 25;
+const DEFAULT_LOOKAHEAD = 0.1; // Seconds
+
+export interface LookaheadScheduler {
+  start: () => void;
+  stop: () => void;
+}
+
+export const createLookaheadScheduler = (
+  ctx: BaseAudioContext,
+  scheduleUntil: (until: number) => void,
+  intervalMs: number = DEFAULT_INTERVAL_MS,
+  lookahead: number = DEFAULT_LOOKAHEAD
+): LookaheadScheduler => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const tick = () => scheduleUntil(ctx.currentTime + lookahead);
+
+  return {
+    start: () => {
+      if (timer !== null) return;
+      tick();
+      timer = setInterval(tick, intervalMs);
+    },
+    stop: () => {
+      if (timer === null) return;
+      clearInterval(timer);
+      timer = null;
+    },
+  };
+};
+
+export interface StepTiming {
+  tempo: number; // Quarter notes per minute
+  rate: number; // Beats per step
+  swing: number; // 0-0.5, fraction of a step every second step is pushed late
+}
+
+export interface StepClock {
+  start: (startTime: number) => void;
+  stop: () => void;
+  setTiming: (timing: StepTiming) => void;
+  isRunning: () => boolean;
+}
+
+// Evenly spaced steps on the lookahead scheduler, for the arpeggiator and sequencer.
+// `length` is the time to the next step, so swung steps come out long-short.
+export const createStepClock = (
+  ctx: BaseAudioContext,
+  onStep: (step: number, time: number, length: number) => void
+): StepClock => {
+  let timing: StepTiming = { tempo: 120, rate: 0.25, swing: 0 };
+  let gridTime = 0; // Unswung time of the next step
+  let stepIndex = 0;
+  let running = false;
+
+  const getStepTime = (index: number, grid: number, duration: number) => {
+    return index % 2 === 1 ? grid + timing.swing * duration : grid;
+  };
+
+  const scheduler = createLookaheadScheduler(ctx, (until) => {
+    for (;;) {
+      const duration = timing.rate * (60 / timing.tempo);
+      const time = getStepTime(stepIndex, gridTime, duration);
+      if (time >= until) break;
+      // Tempo and rate changes take effect from the next step
+      const nextTime = getStepTime(stepIndex + 1, gridTime + duration, duration);
+      onStep(stepIndex, time, nextTime - time);
+      gridTime += duration;
+      stepIndex++;
+    }
+  });
+
+  return {
+    start: (startTime) => {
+      scheduler.stop();
+      gridTime = startTime;
+      stepIndex = 0;
+      running = true;
+      scheduler.start();
+    },
+    stop: () => {
+      scheduler.stop();
+      running = false;
+    },
+    setTiming: (next) => { timing = next; },
+    isRunning: () => running,
+  };
+};
@@ -0,0 +1,85 @@
+import { SequencerSettings, SequencerStep } from '../types';
+import { createStepClock } from './scheduler';
+
+export const SEQUENCER_STEPS = 16;
+
+export const DEFAULT_SEQUENCER: SequencerSettings = {
+  length: SEQUENCER_STEPS,
+  rate: 0.25,
+  gate: 0.5,
+  swing: 0,
+};
+
+export const createEmptyPattern = (): SequencerStep[] => {
+  return Array.from({ length: SEQUENCER_STEPS }, () => ({ notes: [], velocity: 0.8 }));
+};
+
+// Add a note to a step, or take it out if it is already there
+export const toggleStepNote = (steps: SequencerStep[], index: number, midi: number): SequencerStep[] => {
+  return steps.map((step, i) => {
+    if (i !== index) return step;
+    const notes = step.notes.includes(midi) ? step.notes.filter(note => note !== midi) : [...step.notes, midi];
+    return { ...step, notes };
+  });
+};
+
+// Add a recorded note to a step; the step's velocity comes from its first note
+export const addStepNote = (steps: SequencerStep[], index: number, midi: number, velocity: number): SequencerStep[] => {
+  return steps.map((step, i) => {
+    if (i !== index || step.notes.includes(midi)) return step;
+    return { notes: [...step.notes, midi], velocity: step.notes.length === 0 ? velocity : step.velocity };
+  });
+};
+
+// Grid rows: every pitch used in the pattern, highest first
+export const getPatternPitches = (steps: SequencerStep[]): number[] => {
+  const pitches = new Set<number>();
+  steps.forEach(step => step.notes.forEach(midi => pitches.add(midi)));
+  return Array.from(pitches).sort((a, b) => b - a);
+};
+
+interface SequencerOutput {
+  playNote: (midi: number, velocity: number, when: number, duration: number) => void;
+}
+
+export interface Sequencer {
+  start: (startTime: number) => void;
+  stop: () => void;
+  setSteps: (steps: SequencerStep[]) => void;
+  setSettings: (settings: SequencerSettings) => void;
+  setTempo: (tempo: number) => void;
+}
+
+// Loops the pattern on the audio clock; edits are heard from the next step scheduled
+export const createSequencer = (
+  ctx: BaseAudioContext,
+  output: SequencerOutput,
+  onStep?: (index: number, time: number) => void
+): Sequencer => {
+  let steps = createEmptyPattern();
+  let settings = DEFAULT_SEQUENCER;
+  let tempo = 120;
+
+  const clock = createStepClock(ctx, (stepIndex, time, length) => {
+    const index = stepIndex % settings.length;
+    const step = steps[index];
+    step.notes.forEach(midi => output.playNote(midi, step.velocity, time, Math.max(0.01, length * settings.gate)));
+    onStep?.(index, time);
+  });
+
+  const updateTiming = () => clock.setTiming({ tempo, rate: settings.rate, swing: settings.swing });
+
+  return {
+    start: (startTime) => clock.start(startTime),
+    stop: () => clock.stop(),
+    setSteps: (next) => { steps = next; },
+    setSettings: (next) => {
+      settings = next;
+      updateTiming();
+    },
+    setTempo: (next) => {
+      tempo = next;
+      updateTiming();
+    },
+  };
+};
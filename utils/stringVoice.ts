@@ -0,0 +1,179 @@
+import { StringModelSettings, VoiceGraph } from '../types';
+
+// Physically modelled string (Karplus-Strong with a stiffness allpass), run in an
+// AudioWorklet. The processor is kept as source text and loaded from a Blob URL,
+// so it works the same with or without a bundler and in offline contexts.
+
+const PROCESSOR_NAME = 'karplus-strong-string';
+
+export const DEFAULT_STRING_MODEL: StringModelSettings = {
+  stiffness: 0.3,
+  damping: 0.4,
+};
+
+// Longest and shortest ring times (seconds to -60dB) across the damping range
+const MAX_RING_TIME = 14;
+const MIN_RING_TIME = 0.6;
+
+const PROCESSOR_SOURCE = `
+class KarplusStrongProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'damping', defaultValue: 0.4, minValue: 0, maxValue: 1, automationRate: 'k-rate' }];
+  }
+
+  constructor(options) {
+    super();
+    const { frequency, hardness, stiffness, startTime } = options.processorOptions;
+    this.frequency = frequency;
+    this.startFrame = Math.round(startTime * sampleRate);
+    this.hasInput = false;
+
+    // First-order allpass in the loop disperses the partials like a stiff string;
+    // its low-frequency delay is taken out of the loop length to stay in tune
+    this.allpassCoefficient = stiffness;
+    const allpassDelay = (1 - stiffness) / (1 + stiffness);
+    this.delay = Math.max(2, sampleRate / frequency - 0.5 - allpassDelay); // 0.5: the averaging filter
+    this.size = Math.ceil(this.delay) + 2;
+    this.buffer = new Float32Array(this.size);
+    this.writeIndex = 0;
+    this.previous = 0;
+    this.allpassIn = 0;
+    this.allpassOut = 0;
+
+    // Hammer: a burst of noise, low-passed more for soft strikes
+    const brightness = 0.08 + 0.9 * hardness;
+    let smoothed = 0;
+    let mean = 0;
+    for (let i = 0; i < this.size; i++) {
+      smoothed += brightness * ((Math.random() * 2 - 1) - smoothed);
+      this.buffer[i] = smoothed;
+      mean += smoothed / this.size;
+    }
+    let peak = 0;
+    for (let i = 0; i < this.size; i++) {
+      this.buffer[i] -= mean; // No DC offset in the string
+      peak = Math.max(peak, Math.abs(this.buffer[i]));
+    }
+    for (let i = 0; i < this.size; i++) {
+      this.buffer[i] /= peak || 1;
+    }
+  }
+
+  process(inputs, outputs, parameters) {
+    // The voice's clock source feeds our input; once it has stopped and been
+    // disconnected there is nothing left to play and the processor can go
+    const isConnected = inputs[0].length > 0;
+    if (isConnected) this.hasInput = true;
+    if (this.hasInput && !isConnected) return false;
+
+    const output = outputs[0];
+    const channel = output[0];
+    const ringTime = ${MAX_RING_TIME} - (${MAX_RING_TIME} - ${MIN_RING_TIME}) * parameters.damping[0];
+    const loopGain = Math.pow(0.001, 1 / (this.frequency * ringTime));
+    const a = this.allpassCoefficient;
+
+    for (let i = 0; i < channel.length; i++) {
+      // Stay silent until the note's start time, so notes can be scheduled ahead
+      if (currentFrame + i < this.startFrame) {
+        channel[i] = 0;
+        continue;
+      }
+
+      let readPosition = this.writeIndex - this.delay;
+      if (readPosition < 0) readPosition += this.size;
+      const index = Math.floor(readPosition);
+      const fraction = readPosition - index;
+      const sample = this.buffer[index] * (1 - fraction) + this.buffer[(index + 1) % this.size] * fraction;
+
+      // Averaging low-pass: upper partials die away faster, as on a real string
+      const averaged = 0.5 * (sample + this.previous);
+      this.previous = sample;
+
+      const dispersed = a * averaged + this.allpassIn - a * this.allpassOut;
+      this.allpassIn = averaged;
+      this.allpassOut = dispersed;
+
+      const next = dispersed * loopGain;
+      this.buffer[this.writeIndex] = next;
+      this.writeIndex = (this.writeIndex + 1) % this.size;
+      channel[i] = next;
+    }
+
+    for (let c = 1; c < output.length; c++) {
+      output[c].set(channel);
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', KarplusStrongProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+const pendingLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+
+// Register the processor with a context (once); string voices can be created when it resolves
+export const loadStringModel = (ctx: BaseAudioContext): Promise<void> => {
+  let pending = pendingLoads.get(ctx);
+  if (!pending) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    pending = ctx.audioWorklet.addModule(url)
+      .then(() => { loadedContexts.add(ctx); })
+      .finally(() => URL.revokeObjectURL(url));
+    pendingLoads.set(ctx, pending);
+  }
+  return pending;
+};
+
+export const isStringModelReady = (ctx: BaseAudioContext) => loadedContexts.has(ctx);
+
+// With the dampers lifted the whole soundboard rings along, so strings die away more slowly
+const PEDAL_DAMPING_RELIEF = 0.6;
+
+export const getStringDamping = (settings: StringModelSettings, sustainDepth: number) => {
+  return settings.damping * (1 - PEDAL_DAMPING_RELIEF * sustainDepth);
+};
+
+// Treble strings are thicker relative to their length, so they are stiffer
+const getNoteStiffness = (midi: number, stiffness: number) => {
+  const register = Math.min(1, Math.max(0, (midi - 21) / 87));
+  return Math.min(0.85, stiffness * (0.3 + 0.7 * register));
+};
+
+// Build (and start) a string voice. Velocity sets hammer hardness; the caller owns
+// the amplitude envelope on `output` and may move `damping` (e.g. with the pedal).
+export const createStringVoice = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  midi: number,
+  frequency: number,
+  velocity: number,
+  settings: StringModelSettings,
+  damping: number,
+  startTime: number
+): VoiceGraph => {
+  const output = ctx.createGain();
+  output.connect(destination);
+
+  const string = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: {
+      frequency,
+      hardness: velocity,
+      stiffness: getNoteStiffness(midi, settings.stiffness),
+      startTime,
+    },
+    parameterData: { damping },
+  });
+  string.connect(output);
+
+  // Silent source that gives the voice a start/stop lifetime like the other voices
+  const clock = ctx.createConstantSource();
+  clock.offset.value = 0;
+  clock.connect(string);
+  clock.start(startTime);
+
+  return { sources: [clock], nodes: [string], output, damping: string.parameters.get('damping') };
+};
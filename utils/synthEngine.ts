@@ -0,0 +1,321 @@
+import { ActiveNoteData, EnvelopeSettings, FilterSettings, LfoSettings, NoteSource, PedalType, PolyphonySettings, SampleSet, StringModelSettings, SynthPreset, TuningSettings, VoiceGraph, VoiceType } from '../types';
+import { getPresetById, DEFAULT_PRESET_ID } from './presets';
+import {
+  DEFAULT_ENVELOPE, applyEnvelopeAttack, applyEnvelopeRelease, applyExponentialDecay, applyFadeOut,
+  getEnvelopeLevel, getReleaseLevel, holdParamAt,
+} from './envelope';
+import { createVoice, stopVoice, disconnectVoice } from './voice';
+import { createSampleVoice, findSampleZone } from './sampler';
+import { createStringVoice, DEFAULT_STRING_MODEL, getStringDamping, isStringModelReady } from './stringVoice';
+import { chooseVoiceToSteal, DEFAULT_POLYPHONY, STEAL_FADE_TIME } from './voiceAllocator';
+import { buildFrequencyTable, DEFAULT_TUNING } from './tuning';
+import { createFilterStage, DEFAULT_FILTER, releaseFilterStage } from './filter';
+import { createModulation } from './lfo';
+import { DAMPER_CONTACT, getDamperReleaseTime, getSoftPedalBrightness, getSoftPedalLevel, isPedalDown, PEDALS_UP } from './pedals';
+
+// Note management shared by the realtime synth (useSynth) and offline rendering.
+// Works against any BaseAudioContext, so every method takes an optional `when`
+// on that context's timeline instead of assuming "now".
+export interface SynthEngine {
+  playNote: (midiNote: number, velocity: number, when?: number, source?: NoteSource) => void; // velocity 0-1
+  stopNote: (midiNote: number, when?: number, source?: NoteSource) => void;
+  // Arpeggiator and sequencer notes: their own voices with a fixed length, kept apart from
+  // the keys the player holds and untouched by the pedals
+  playTimedNote: (midiNote: number, velocity: number, when: number, duration: number) => void;
+  setPedal: (pedal: PedalType, value: number, when?: number) => void; // value 0-1
+  silence: () => void;
+  setPreset: (preset: SynthPreset) => void;
+  setEnvelope: (envelope: EnvelopeSettings) => void;
+  setPolyphony: (polyphony: PolyphonySettings) => void;
+  setVoiceType: (voiceType: VoiceType) => void;
+  setSampleSet: (sampleSet: SampleSet | null) => void;
+  setStringModel: (settings: StringModelSettings) => void;
+  setTuning: (tuning: TuningSettings) => void;
+  setFilter: (filter: FilterSettings) => void;
+  setLfos: (lfos: LfoSettings[], tempo: number) => void; // Tempo is for synced LFOs
+}
+
+interface SynthEngineOptions {
+  onVoiceCountChange?: (count: number) => void;
+  onSustainedNotesChange?: (notes: number[]) => void; // Keys let go but still ringing under a pedal
+}
+
+export const createSynthEngine = (ctx: BaseAudioContext, destination: AudioNode, options: SynthEngineOptions = {}): SynthEngine => {
+  // Notes currently held down, per source
+  const activeNotes: { [S in NoteSource]: Map<number, ActiveNoteData> } = { live: new Map(), playback: new Map() };
+  const sustainedNotes = new Map<number, ActiveNoteData>(); // Keys released, but dampers lifted by a pedal
+  const sostenutoNotes = new Set<ActiveNoteData>(); // Notes caught by the sostenuto pedal
+  const soundingVoices = new Set<ActiveNoteData>(); // Everything still audible, including release tails
+  let preset = getPresetById(DEFAULT_PRESET_ID);
+  let envelope = DEFAULT_ENVELOPE;
+  let polyphony = DEFAULT_POLYPHONY;
+  let voiceType: VoiceType = 'synth';
+  let sampleSet: SampleSet | null = null;
+  let stringModel = DEFAULT_STRING_MODEL;
+  let pedals = { ...PEDALS_UP };
+  let frequencies = buildFrequencyTable(DEFAULT_TUNING);
+  let filter = DEFAULT_FILTER;
+  // Every voice plays through the global LFOs' tremolo on its way out
+  const modulation = createModulation(ctx, destination);
+
+  const notifyVoiceCount = () => options.onVoiceCountChange?.(soundingVoices.size);
+  const notifySustainedNotes = () => options.onSustainedNotesChange?.(Array.from(sustainedNotes.keys()));
+
+  // Never schedule into the past
+  const resolveTime = (when?: number) => Math.max(when ?? ctx.currentTime, ctx.currentTime);
+
+  const getVoiceLevel = (noteData: ActiveNoteData, t: number) => {
+    const { release } = noteData;
+    // Timed notes have their release scheduled ahead
+    return release && t >= release.time
+      ? getReleaseLevel(release.level, release.duration, t - release.time)
+      : getEnvelopeLevel(noteData.envelope, noteData.peak, t - noteData.startTime);
+  };
+
+  // Run the release stage on a voice, then stop it; nodes are torn down once it has ended
+  const releaseVoice = (noteData: ActiveNoteData, t: number) => {
+    const currentLevel = getVoiceLevel(noteData, t);
+    const endTime = applyEnvelopeRelease(noteData.voice.output.gain, envelope, t, currentLevel);
+    noteData.release = { time: t, level: currentLevel, duration: envelope.release };
+    if (noteData.filter) releaseFilterStage(noteData.filter, t);
+    stopVoice(noteData.voice, endTime + 0.05); // Stop after release
+  };
+
+  const teardownVoice = (noteData: ActiveNoteData) => {
+    noteData.detachModulation();
+    disconnectVoice(noteData.voice);
+  };
+
+  // Shape an undamped note for the current pedal depth: ring on at full pedal,
+  // die away slowly at half pedal. The voice is only stopped once fully damped.
+  const applyDamper = (noteData: ActiveNoteData, depth: number, t: number) => {
+    const duration = getDamperReleaseTime(depth, envelope.release);
+    if (duration === Infinity && !noteData.release) return; // Still in its natural envelope
+
+    const currentLevel = getVoiceLevel(noteData, t);
+    if (duration === Infinity) {
+      // Pedal pushed back down after a half-pedal decay: ring on at the current level
+      holdParamAt(noteData.voice.output.gain, t, currentLevel);
+    } else {
+      applyExponentialDecay(noteData.voice.output.gain, t, currentLevel, duration);
+    }
+    noteData.release = { time: t, level: currentLevel, duration };
+  };
+
+  const isHeld = (noteData: ActiveNoteData) => {
+    return Object.values(activeNotes).some(held => held.get(noteData.midi) === noteData) || sustainedNotes.get(noteData.midi) === noteData;
+  };
+
+  // Quickly fade out a voice to make room for a new one
+  const stealVoice = (noteData: ActiveNoteData, t: number) => {
+    Object.values(activeNotes).forEach((held) => {
+      if (held.get(noteData.midi) === noteData) held.delete(noteData.midi);
+    });
+    if (sustainedNotes.get(noteData.midi) === noteData) {
+      sustainedNotes.delete(noteData.midi);
+      notifySustainedNotes();
+    }
+    sostenutoNotes.delete(noteData);
+    soundingVoices.delete(noteData);
+
+    const endTime = applyFadeOut(noteData.voice.output.gain, t, getVoiceLevel(noteData, t), STEAL_FADE_TIME);
+    stopVoice(noteData.voice, endTime);
+  };
+
+  const allocateVoice = (t: number) => {
+    while (soundingVoices.size >= polyphony.maxVoices) {
+      const candidates = Array.from(soundingVoices, noteData => ({
+        noteData,
+        midi: noteData.midi,
+        startTime: noteData.startTime,
+        level: getVoiceLevel(noteData, t),
+        isReleasing: !isHeld(noteData) && !(noteData.release && noteData.release.time > t),
+      }));
+      const victim = chooseVoiceToSteal(candidates, polyphony.stealing);
+      if (!victim) break;
+      stealVoice(victim.noteData, t);
+    }
+  };
+
+  // Build and start a voice at time t; the caller decides how it is held and released
+  const startVoice = (midiNote: number, frequency: number, velocity: number, t: number): ActiveNoteData => {
+    allocateVoice(t);
+    // The soft pedal makes the hammer strike quieter and duller
+    const peak = velocity * getSoftPedalLevel(pedals.soft);
+    const brightness = getSoftPedalBrightness(pedals.soft);
+
+    // The filter section sits between the voice and the tremolo, one filter per note
+    const filterStage = filter.enabled ? createFilterStage(ctx, modulation.input, midiNote, filter, t) : null;
+    const voiceDestination = filterStage?.node ?? modulation.input;
+
+    // Sampled and modelled notes fall back to the synth until their resources are loaded
+    const zone = voiceType === 'sampler' && sampleSet ? findSampleZone(sampleSet, midiNote, velocity) : null;
+    const isString = voiceType === 'string' && isStringModelReady(ctx);
+    let voice: VoiceGraph;
+    if (zone) {
+      voice = createSampleVoice(ctx, voiceDestination, midiNote, zone, brightness, t);
+    } else if (isString) {
+      const damping = getStringDamping(stringModel, pedals.sustain);
+      voice = createStringVoice(ctx, voiceDestination, midiNote, frequency, velocity * brightness, stringModel, damping, t);
+    } else {
+      voice = createVoice(ctx, voiceDestination, frequency, velocity * brightness, preset, t);
+    }
+    // Samples and strings carry their own decay, so they skip the envelope's decay to sustain
+    const noteEnvelope = zone || isString ? { ...envelope, sustain: 1 } : envelope;
+
+    // Velocity sets the envelope peak; overall loudness is the master gain's job
+    applyEnvelopeAttack(voice.output.gain, peak, noteEnvelope, t);
+
+    if (filterStage) voice.nodes.push(filterStage.node);
+
+    const noteData: ActiveNoteData = {
+      midi: midiNote, voice, startTime: t, peak, envelope: noteEnvelope, release: null,
+      filter: filterStage?.state ?? null,
+      detachModulation: modulation.attachVoice(voice.detune ?? [], filterStage?.node.detune ?? null),
+    };
+    voice.sources[0].onended = () => {
+      teardownVoice(noteData);
+      if (soundingVoices.delete(noteData)) notifyVoiceCount();
+    };
+    soundingVoices.add(noteData);
+    notifyVoiceCount();
+    return noteData;
+  };
+
+  const playNote = (midiNote: number, velocity: number, when?: number, source: NoteSource = 'live') => {
+    const held = activeNotes[source];
+    if (held.has(midiNote)) {
+      return; // Already playing
+    }
+    const frequency = frequencies[midiNote];
+    if (frequency == null) return; // Key left unmapped by the tuning
+
+    const t = resolveTime(when);
+
+    // Striking a string that is still ringing under the pedal re-excites it:
+    // the old voice gives way to a fresh attack at the new velocity
+    const ringing = sustainedNotes.get(midiNote);
+    const isCaughtBySostenuto = !!ringing && sostenutoNotes.has(ringing);
+    if (ringing) stealVoice(ringing, t);
+
+    const noteData = startVoice(midiNote, frequency, velocity, t);
+    held.set(midiNote, noteData);
+    if (isCaughtBySostenuto) sostenutoNotes.add(noteData); // Its damper is still held up
+  };
+
+  const playTimedNote = (midiNote: number, velocity: number, when: number, duration: number) => {
+    const frequency = frequencies[midiNote];
+    if (frequency == null) return;
+    const t = resolveTime(when);
+    releaseVoice(startVoice(midiNote, frequency, velocity, t), t + duration);
+  };
+
+  const stopNote = (midiNote: number, when?: number, source: NoteSource = 'live') => {
+    const held = activeNotes[source];
+    const noteData = held.get(midiNote);
+    if (!noteData) return;
+
+    // Remove from active list
+    held.delete(midiNote);
+    const t = resolveTime(when);
+
+    // Both sources may have held the same key; only one voice rings on per string
+    const ringing = sustainedNotes.get(midiNote);
+    if (ringing && (sostenutoNotes.has(noteData) || pedals.sustain >= DAMPER_CONTACT)) stealVoice(ringing, t);
+
+    if (sostenutoNotes.has(noteData)) {
+      // Sostenuto keeps this note's damper raised regardless of the sustain pedal
+      sustainedNotes.set(midiNote, noteData);
+      notifySustainedNotes();
+    } else if (pedals.sustain >= DAMPER_CONTACT) {
+      sustainedNotes.set(midiNote, noteData);
+      applyDamper(noteData, pedals.sustain, t);
+      notifySustainedNotes();
+    } else {
+      releaseVoice(noteData, t);
+    }
+  };
+
+  // Re-apply the sustain pedal to every undamped note not held by sostenuto
+  const updateDampers = (t: number) => {
+    const count = sustainedNotes.size;
+    sustainedNotes.forEach((noteData, midi) => {
+      if (sostenutoNotes.has(noteData)) return;
+      if (pedals.sustain < DAMPER_CONTACT) {
+        releaseVoice(noteData, t);
+        sustainedNotes.delete(midi);
+      } else {
+        applyDamper(noteData, pedals.sustain, t);
+      }
+    });
+    if (sustainedNotes.size !== count) notifySustainedNotes();
+  };
+
+  const setPedal = (pedal: PedalType, value: number, when?: number) => {
+    const t = resolveTime(when);
+    const wasDown = isPedalDown(pedals[pedal]);
+    pedals = { ...pedals, [pedal]: Math.min(1, Math.max(0, value)) };
+
+    if (pedal === 'sustain') {
+      updateDampers(t);
+      // Modelled strings also ring longer with the dampers lifted
+      const damping = getStringDamping(stringModel, pedals.sustain);
+      soundingVoices.forEach(({ voice }) => voice.damping?.setTargetAtTime(damping, t, 0.05));
+    } else if (pedal === 'sostenuto') {
+      const isDown = isPedalDown(pedals.sostenuto);
+      if (isDown && !wasDown) {
+        // Only the keys down at this moment are caught
+        Object.values(activeNotes).forEach(held => held.forEach(noteData => sostenutoNotes.add(noteData)));
+      } else if (!isDown && wasDown) {
+        sostenutoNotes.clear();
+        updateDampers(t);
+      }
+    }
+    // The soft pedal only affects notes struck while it is down
+  };
+
+  const silence = () => {
+    const stopImmediately = (noteData: ActiveNoteData) => {
+      const { voice } = noteData;
+      try {
+        voice.output.gain.cancelScheduledValues(ctx.currentTime);
+        voice.output.gain.setValueAtTime(0, ctx.currentTime);
+        stopVoice(voice);
+        teardownVoice(noteData);
+      } catch (e) {
+        console.warn("Error stopping voice:", e);
+      }
+    };
+
+    // Stop everything still sounding, release tails included, and lift the pedals
+    soundingVoices.forEach(stopImmediately);
+    soundingVoices.clear();
+    Object.values(activeNotes).forEach(held => held.clear());
+    sustainedNotes.clear();
+    sostenutoNotes.clear();
+    pedals = { ...PEDALS_UP };
+    notifyVoiceCount();
+    notifySustainedNotes();
+  };
+
+  return {
+    playNote,
+    stopNote,
+    playTimedNote,
+    setPedal,
+    silence,
+    setPreset: (next) => { preset = next; },
+    // Envelope changes apply to notes started (or released) after the change
+    setEnvelope: (next) => { envelope = next; },
+    // A lower limit takes effect as new notes arrive
+    setPolyphony: (next) => { polyphony = next; },
+    setVoiceType: (next) => { voiceType = next; },
+    setSampleSet: (next) => { sampleSet = next; },
+    setStringModel: (next) => { stringModel = next; },
+    // Retuning applies to notes struck after the change
+    setTuning: (next) => { frequencies = buildFrequencyTable(next); },
+    // Filter changes apply to notes struck after the change
+    setFilter: (next) => { filter = next; },
+    setLfos: (lfos, tempo) => modulation.setLfos(lfos, tempo),
+  };
+};
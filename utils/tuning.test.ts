@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { parseKeyboardMapping, parseScalaScale } from './scala';
+import { buildFrequencyTable, DEFAULT_TUNING, SCALA_TEMPERAMENT } from './tuning';
+
+const JUST_MAJOR_SCL = `! just_major.scl
+!
+5-limit just major scale
+ 7
+!
+ 9/8
+ 5/4
+ 4/3
+ 3/2
+ 5/3
+ 15/8
+ 2/1
+`;
+
+// White keys only, the scale's tonic on middle C, A4 at 440 Hz. The formal
+// octave is left as 0, which the Scala format reads as the scale's size.
+const WHITE_KEYS_KBM = `! white_keys.kbm
+!
+! Size of map:
+12
+! First MIDI note number to retune:
+0
+! Last MIDI note number to retune:
+127
+! Middle note where the first entry of the mapping is mapped to:
+60
+! Reference note for which frequency is given:
+69
+! Frequency to tune the above note to
+440.0
+! Scale degree to consider as formal octave (0 = scale size):
+0
+! Mapping.
+0
+x
+1
+x
+2
+3
+x
+4
+x
+5
+x
+6
+`;
+
+const tableFor = (scl: string, kbm: string) => buildFrequencyTable({
+  ...DEFAULT_TUNING,
+  temperament: SCALA_TEMPERAMENT,
+  scale: parseScalaScale(scl),
+  keyboardMapping: parseKeyboardMapping(kbm),
+});
+
+describe('Scala keyboard mappings', () => {
+  it('reads an octave degree of 0 as the scale size', () => {
+    const table = tableFor(JUST_MAJOR_SCL, WHITE_KEYS_KBM);
+
+    expect(table[69]).toBeCloseTo(440);
+    expect(table[60]).toBeCloseTo(440 * 3 / 5); // A is the 5/3 above C
+    // Each repeat of the mapping climbs a whole period instead of replaying the same degrees
+    expect(table[72]).toBeCloseTo(table[60]! * 2);
+    expect(table[81]).toBeCloseTo(880);
+    expect(table[48]).toBeCloseTo(table[60]! / 2);
+    expect(table[67]).toBeCloseTo(table[60]! * 3 / 2);
+  });
+
+  it('leaves unmapped keys silent', () => {
+    const table = tableFor(JUST_MAJOR_SCL, WHITE_KEYS_KBM);
+    expect(table[61]).toBeNull();
+    expect(table[73]).toBeNull();
+  });
+
+  it('follows an explicit octave degree', () => {
+    const table = tableFor(JUST_MAJOR_SCL, WHITE_KEYS_KBM.replace(/\n0\n! Mapping/, '\n7\n! Mapping'));
+    expect(table[72]).toBeCloseTo(table[60]! * 2);
+  });
+});
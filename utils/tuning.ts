@@ -0,0 +1,126 @@
+import { KeyboardMapping, ScalaScale, TuningSettings } from '../types';
+
+export const SCALA_TEMPERAMENT = 'scala';
+
+export const DEFAULT_TUNING: TuningSettings = {
+  temperament: 'equal',
+  rootNote: 0,
+  referencePitch: 440,
+  scale: null,
+  keyboardMapping: null,
+};
+
+const ratiosToCents = (ratios: number[]) => ratios.map(ratio => 1200 * Math.log2(ratio));
+
+// Historical temperaments as cents above the root for each of the 12 semitones
+export const TEMPERAMENTS: { id: string; name: string; cents: number[] }[] = [
+  { id: 'equal', name: 'Equal', cents: Array.from({ length: 12 }, (_, i) => i * 100) },
+  {
+    id: 'just',
+    name: 'Just (5-limit)',
+    cents: ratiosToCents([1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8]),
+  },
+  {
+    id: 'pythagorean',
+    name: 'Pythagorean',
+    cents: ratiosToCents([1, 256 / 243, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 128 / 81, 27 / 16, 16 / 9, 243 / 128]),
+  },
+  {
+    id: 'meantone',
+    name: '1/4-Comma Meantone',
+    cents: [0, 76.05, 193.16, 310.26, 386.31, 503.42, 579.47, 696.58, 772.63, 889.74, 1006.84, 1082.89],
+  },
+  {
+    id: 'werckmeister',
+    name: 'Werckmeister III',
+    cents: [0, 90.22, 192.18, 294.13, 390.22, 498.04, 588.27, 696.09, 792.18, 888.27, 996.09, 1092.18],
+  },
+  {
+    id: 'vallotti',
+    name: 'Vallotti',
+    cents: [0, 94.13, 196.09, 298.04, 392.18, 501.96, 592.18, 698.04, 796.09, 894.13, 1000, 1090.22],
+  },
+];
+
+const equalFrequency = (midi: number, referencePitch: number) => referencePitch * Math.pow(2, (midi - 69) / 12);
+
+// Cents of a scale degree, continuing through periods in both directions
+const getDegreeCents = (scale: ScalaScale, degree: number) => {
+  const count = scale.cents.length;
+  const period = scale.cents[count - 1];
+  const step = ((degree % count) + count) % count;
+  return Math.floor(degree / count) * period + (step === 0 ? 0 : scale.cents[step - 1]);
+};
+
+// Scale degree played by a key, or null if the mapping leaves it silent
+const getKeyDegree = (scale: ScalaScale, mapping: KeyboardMapping, midi: number): number | null => {
+  if (midi < mapping.firstNote || midi > mapping.lastNote) return null;
+  const offset = midi - mapping.middleNote;
+  if (mapping.size === 0) return offset;
+
+  const index = ((offset % mapping.size) + mapping.size) % mapping.size;
+  const degree = mapping.mapping[index];
+  if (degree === null) return null;
+  // An octave degree of 0 means the scale's own size, i.e. the period
+  const octaveDegree = mapping.octaveDegree === 0 ? scale.cents.length : mapping.octaveDegree;
+  return Math.floor(offset / mapping.size) * octaveDegree + degree;
+};
+
+// Used when a scale is imported without a .kbm: one degree per key, middle C on degree 0
+const getDefaultMapping = (scale: ScalaScale, referencePitch: number): KeyboardMapping => ({
+  size: 0,
+  firstNote: 0,
+  lastNote: 127,
+  middleNote: 60,
+  referenceNote: 69,
+  referenceFrequency: referencePitch,
+  octaveDegree: scale.cents.length,
+  mapping: [],
+});
+
+const buildScalaTable = (scale: ScalaScale, mapping: KeyboardMapping): (number | null)[] => {
+  // The reference key sounds at the reference frequency even if it is itself unmapped
+  const referenceOffset = mapping.referenceNote - mapping.middleNote;
+  const referenceDegree = getKeyDegree(scale, { ...mapping, firstNote: 0, lastNote: 127 }, mapping.referenceNote) ?? referenceOffset;
+  const referenceCents = getDegreeCents(scale, referenceDegree);
+
+  return Array.from({ length: 128 }, (_, midi) => {
+    const degree = getKeyDegree(scale, mapping, midi);
+    if (degree === null) return null;
+    return mapping.referenceFrequency * Math.pow(2, (getDegreeCents(scale, degree) - referenceCents) / 1200);
+  });
+};
+
+// Frequency of every MIDI note (null = unmapped, the key stays silent)
+export const buildFrequencyTable = (tuning: TuningSettings): (number | null)[] => {
+  if (tuning.temperament === SCALA_TEMPERAMENT && tuning.scale) {
+    const mapping = tuning.keyboardMapping || getDefaultMapping(tuning.scale, tuning.referencePitch);
+    return buildScalaTable(tuning.scale, mapping);
+  }
+
+  const temperament = TEMPERAMENTS.find(t => t.id === tuning.temperament) || TEMPERAMENTS[0];
+  // Cents from the temperament's root, then shifted so A4 lands on the reference pitch
+  const centsOf = (midi: number) => {
+    const fromRoot = midi - tuning.rootNote;
+    return Math.floor(fromRoot / 12) * 1200 + temperament.cents[((fromRoot % 12) + 12) % 12];
+  };
+  const referenceCents = centsOf(69);
+  return Array.from({ length: 128 }, (_, midi) => {
+    return tuning.referencePitch * Math.pow(2, (centsOf(midi) - referenceCents) / 1200);
+  });
+};
+
+export const isEqualTemperament = (tuning: TuningSettings) => tuning.temperament === 'equal';
+
+// Deviation of each key from 12-TET at the same reference pitch, for the key labels
+export const getCentDeviations = (tuning: TuningSettings, table: (number | null)[]): (number | null)[] => {
+  return table.map((frequency, midi) => {
+    if (frequency === null) return null;
+    return 1200 * Math.log2(frequency / equalFrequency(midi, tuning.referencePitch));
+  });
+};
+
+export const formatCents = (cents: number) => {
+  const rounded = Math.round(cents);
+  return rounded === 0 ? '±0' : `${rounded > 0 ? '+' : '−'}${Math.abs(rounded)}`;
+};
@@ -0,0 +1,36 @@
+import { VelocityCurve } from '../types';
+
+export const VELOCITY_CURVES: { id: VelocityCurve; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'soft', label: 'Soft' }, // Light touch already plays loud
+  { id: 'hard', label: 'Hard' }, // Needs a firm touch to reach full level
+];
+
+// Quietest velocity a pointer can produce, so a touch at the very back of a key is still audible
+const MIN_POINTER_VELOCITY = 0.25;
+
+// Map a 0-1 input velocity through the selected response curve
+export const applyVelocityCurve = (velocity: number, curve: VelocityCurve): number => {
+  const v = Math.min(1, Math.max(0, velocity));
+  switch (curve) {
+    case 'soft':
+      return Math.sqrt(v);
+    case 'hard':
+      return v * v;
+    default:
+      return v;
+  }
+};
+
+// Velocity from a pointer press. Devices that report real pressure (pens, force touch)
+// use it directly; otherwise the strike position stands in: nearer the front of the
+// key (relativeY close to 1) is louder, as on a real keyboard where you have more leverage.
+export const getPointerVelocity = (relativeY: number, pressure: number, pointerType: string): number => {
+  // Browsers report 0.5 for buttons without pressure sensing and 0 for hover
+  const hasRealPressure = pointerType === 'pen' || (pressure > 0 && pressure !== 0.5);
+  if (hasRealPressure) {
+    return Math.max(MIN_POINTER_VELOCITY, Math.min(1, pressure));
+  }
+  const position = Math.min(1, Math.max(0, relativeY));
+  return MIN_POINTER_VELOCITY + (1 - MIN_POINTER_VELOCITY) * position;
+};
@@ -0,0 +1,100 @@
+import { OscillatorLayer, SynthPreset, VoiceGraph, VoiceType } from '../types';
+
+export const VOICE_TYPES: { id: VoiceType; label: string }[] = [
+  { id: 'synth', label: 'Synth' },
+  { id: 'sampler', label: 'Samples' },
+  { id: 'string', label: 'String Model' },
+];
+
+// PeriodicWaves are immutable, so build each harmonic table once per context
+const periodicWaveCache = new WeakMap<BaseAudioContext, Map<string, PeriodicWave>>();
+
+const getPeriodicWave = (ctx: BaseAudioContext, harmonics: number[]): PeriodicWave => {
+  let cache = periodicWaveCache.get(ctx);
+  if (!cache) {
+    cache = new Map();
+    periodicWaveCache.set(ctx, cache);
+  }
+
+  const key = harmonics.join(',');
+  let wave = cache.get(key);
+  if (!wave) {
+    // Index 0 is the DC offset, so partials start at index 1
+    const real = new Float32Array(harmonics.length + 1);
+    const imag = new Float32Array(harmonics.length + 1);
+    harmonics.forEach((amplitude, i) => {
+      imag[i + 1] = amplitude;
+    });
+    wave = ctx.createPeriodicWave(real, imag);
+    cache.set(key, wave);
+  }
+  return wave;
+};
+
+const createLayerOscillator = (ctx: BaseAudioContext, layer: OscillatorLayer, frequency: number, t: number) => {
+  const osc = ctx.createOscillator();
+  if (layer.waveform === 'custom') {
+    osc.setPeriodicWave(getPeriodicWave(ctx, layer.harmonics || [1]));
+  } else {
+    osc.type = layer.waveform;
+  }
+  osc.frequency.setValueAtTime(frequency * Math.pow(2, layer.octave), t);
+  osc.detune.setValueAtTime(layer.detune, t);
+  return osc;
+};
+
+// Harder strikes excite more upper harmonics: open the tone filter with velocity.
+// At full velocity the filter sits well above the audible partials of most notes.
+const getToneCutoff = (frequency: number, velocity: number) => {
+  return Math.min(20000, frequency * 2 + velocity * velocity * 12000);
+};
+
+// Build (and start) the oscillator graph for one note. The caller owns the
+// amplitude envelope on `output`.
+export const createVoice = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  frequency: number,
+  velocity: number,
+  preset: SynthPreset,
+  startTime: number
+): VoiceGraph => {
+  const output = ctx.createGain();
+  output.connect(destination);
+
+  const toneFilter = ctx.createBiquadFilter();
+  toneFilter.type = 'lowpass';
+  toneFilter.Q.setValueAtTime(0, startTime); // No resonant peak, just a gentle roll-off
+  toneFilter.frequency.setValueAtTime(getToneCutoff(frequency, velocity), startTime);
+  toneFilter.connect(output);
+
+  // Normalise layer levels so stacking oscillators doesn't make a preset louder
+  const totalLevel = preset.oscillators.reduce((sum, layer) => sum + layer.level, 0) || 1;
+
+  const oscillators: OscillatorNode[] = [];
+  const mixGains: GainNode[] = [];
+  preset.oscillators.forEach((layer) => {
+    const osc = createLayerOscillator(ctx, layer, frequency, startTime);
+    const mixGain = ctx.createGain();
+    mixGain.gain.setValueAtTime(layer.level / totalLevel, startTime);
+
+    osc.connect(mixGain);
+    mixGain.connect(toneFilter);
+    osc.start(startTime);
+
+    oscillators.push(osc);
+    mixGains.push(mixGain);
+  });
+
+  return { sources: oscillators, nodes: [...mixGains, toneFilter], output, detune: oscillators.map(osc => osc.detune) };
+};
+
+export const stopVoice = (voice: VoiceGraph, when?: number) => {
+  voice.sources.forEach(source => source.stop(when));
+};
+
+export const disconnectVoice = (voice: VoiceGraph) => {
+  voice.sources.forEach(source => source.disconnect());
+  voice.nodes.forEach(node => node.disconnect());
+  voice.output.disconnect();
+};
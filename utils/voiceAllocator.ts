@@ -0,0 +1,46 @@
+import { PolyphonySettings, VoiceStealingMode } from '../types';
+
+export const DEFAULT_POLYPHONY: PolyphonySettings = { maxVoices: 32, stealing: 'oldest' };
+
+export const POLYPHONY_LIMITS = { min: 1, max: 64 };
+
+// Fade applied to a stolen voice before it is stopped
+export const STEAL_FADE_TIME = 0.015;
+
+export const STEALING_MODES: { id: VoiceStealingMode; label: string }[] = [
+  { id: 'oldest', label: 'Oldest' },
+  { id: 'quietest', label: 'Quietest' },
+  { id: 'protect-lowest', label: 'Keep Bass' },
+];
+
+export interface VoiceCandidate {
+  midi: number;
+  startTime: number;
+  level: number; // Envelope level at the time of the steal
+  isReleasing: boolean;
+}
+
+const oldestOf = <T extends VoiceCandidate>(voices: T[]) => {
+  return voices.reduce((oldest, voice) => voice.startTime < oldest.startTime ? voice : oldest);
+};
+
+const quietestOf = <T extends VoiceCandidate>(voices: T[]) => {
+  return voices.reduce((quietest, voice) => voice.level < quietest.level ? voice : quietest);
+};
+
+// Pick the voice to give up for a new note. Voices already in their release
+// stage go first whatever the mode, since they are on their way out anyway.
+export const chooseVoiceToSteal = <T extends VoiceCandidate>(voices: T[], mode: VoiceStealingMode): T | null => {
+  if (voices.length === 0) return null;
+  if (mode === 'quietest') return quietestOf(voices);
+
+  const releasing = voices.filter(voice => voice.isReleasing);
+  if (releasing.length > 0) return oldestOf(releasing);
+
+  if (mode === 'protect-lowest' && voices.length > 1) {
+    // The lowest held note is usually the bass of the chord: keep it
+    const lowest = voices.reduce((low, voice) => voice.midi < low.midi ? voice : low);
+    return oldestOf(voices.filter(voice => voice !== lowest));
+  }
+  return oldestOf(voices);
+};
@@ -0,0 +1,61 @@
+// PCM WAV (RIFF) encoding for rendered AudioBuffers
+
+export type WavBitDepth = 16 | 24;
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+};
+
+export const encodeWav = (buffer: AudioBuffer, bitDepth: WavBitDepth = 16): ArrayBuffer => {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const headerSize = 44;
+
+  const output = new ArrayBuffer(headerSize + dataSize);
+  const view = new DataView(output);
+
+  // RIFF header
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(view, 8, 'WAVE');
+
+  // fmt chunk: uncompressed PCM
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // data chunk: interleaved little-endian samples
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const maxValue = Math.pow(2, bitDepth - 1) - 1;
+  let offset = headerSize;
+
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numberOfChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      const value = Math.round(sample * maxValue);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        // 24-bit has no DataView setter: write the three low bytes of the two's complement value
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return output;
+};